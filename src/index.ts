@@ -6,3 +6,4 @@ export * from './types.js';
 export * from './parser/index.js';
 export * from './viz/index.js';
 export * from './interpreter.js';
+export * from './worker/index.js';
@@ -1,8 +1,10 @@
 import { describe, it, expect } from 'vitest';
-import { interpretTree } from './interpreter.js';
+import { interpretTree, interpretTreeHTML } from './interpreter.js';
 import { EarleyParser } from './parser/earley.js';
 import { createEnglishGrammar } from './parser/grammar.js';
 import { createBuffaloLexicon } from './parser/lexicon.js';
+import { createBuffaloTreebank } from './parser/treebank.js';
+import { toDependencies } from './parser/dependencies.js';
 import type { ParseNode } from './types.js';
 
 // Helper to check if a tree contains a verb
@@ -92,3 +94,19 @@ describe('interpretTree', () => {
     expect(hasRelativeClause).toBe(true);
   });
 });
+
+describe('interpretTree with dependencies', () => {
+  it('reads a dependency graph as its tree reads', () => {
+    for (const tree of createBuffaloTreebank()) {
+      expect(interpretTree(toDependencies(tree))).toBe(interpretTree(tree));
+    }
+  });
+
+  it('numbers words by their positions in HTML', () => {
+    const graph = toDependencies(createBuffaloTreebank().at(-1)!);
+    const html = interpretTreeHTML(graph);
+
+    expect(html).toContain('Bison<sup class="interp-pos">2</sup></span> from <span class="interp-pn">Buffalo<sup class="interp-pos">1</sup>');
+    expect(html.match(/<sup/g)).toHaveLength(8);
+  });
+});
@@ -1,4 +1,4 @@
-import type { ParseTree, ParseNode } from './types.js';
+import type { DependencyGraph, DependencyToken, ParseTree, ParseNode } from './types.js';
 
 /**
  * Interprets a Buffalo sentence parse tree into readable English.
@@ -7,6 +7,8 @@ import type { ParseTree, ParseNode } from './types.js';
  * - PN (Buffalo) = the city Buffalo, NY → "from Buffalo"
  * - N (buffalo) = the animal → "bison"
  * - V (buffalo) = to intimidate → "intimidate"
+ *
+ * Dependency graphs (from toDependencies) read the same way.
  */
 
 interface InterpretContext {
@@ -37,9 +39,13 @@ function wrap(text: string, colorClass: string, html: boolean, position?: { valu
 }
 
 /**
- * Interpret a parse tree into readable English.
+ * Interpret a parse tree or dependency graph into readable English.
  */
-export function interpretTree(tree: ParseTree): string {
+export function interpretTree(tree: ParseTree | DependencyGraph): string {
+  if ('tokens' in tree) {
+    return capitalizeFirst(interpretDependencies(tree, false).trim()) + '.';
+  }
+
   const ctx: InterpretContext = {
     isSubject: true,
     isMainNoun: true,
@@ -55,9 +61,13 @@ export function interpretTree(tree: ParseTree): string {
 }
 
 /**
- * Interpret a parse tree into HTML with color-coded parts of speech.
+ * Interpret a parse tree or dependency graph into HTML with color-coded parts of speech.
  */
-export function interpretTreeHTML(tree: ParseTree): string {
+export function interpretTreeHTML(tree: ParseTree | DependencyGraph): string {
+  if ('tokens' in tree) {
+    return capitalizeFirstHTML(interpretDependencies(tree, true).trim()) + '.';
+  }
+
   const ctx: InterpretContext = {
     isSubject: true,
     isMainNoun: true,
@@ -348,3 +358,56 @@ function interpretPrepPhrase(children: ParseNode[], ctx: InterpretContext): stri
   }
   return children.map(c => interpretNode(c, ctx)).join(' ');
 }
+
+/**
+ * Interpret a dependency graph from its root down. Each word is read with
+ * its dependents in sentence order, except that a city compound follows
+ * its noun ("bison from Buffalo") and a relative clause without its own
+ * pronoun gets "that". Superscripts are the words' positions.
+ */
+function interpretDependencies(graph: DependencyGraph, html: boolean): string {
+  const dependents = new Map<number, DependencyToken[]>();
+  for (const token of graph.tokens) {
+    const list = dependents.get(token.head);
+    if (list) list.push(token);
+    else dependents.set(token.head, [token]);
+  }
+
+  const hasPronoun = (token: DependencyToken): boolean =>
+    token.pos === 'REL' || (dependents.get(token.id) ?? []).some(hasPronoun);
+
+  const interpret = (token: DependencyToken): string => {
+    let head = interpretWord(token, html);
+    const parts: { id: number; text: string }[] = [];
+
+    for (const dependent of dependents.get(token.id) ?? []) {
+      const text = interpret(dependent);
+      if (dependent.relation === 'compound' && dependent.pos === 'PN') {
+        head += ` from ${text}`;
+      } else if (dependent.relation === 'acl:relcl' && !hasPronoun(dependent)) {
+        parts.push({ id: dependent.id, text: `that ${text}` });
+      } else {
+        parts.push({ id: dependent.id, text });
+      }
+    }
+
+    parts.push({ id: token.id, text: head });
+    return parts.sort((a, b) => a.id - b.id).map(part => part.text).join(' ');
+  };
+
+  return (dependents.get(0) ?? []).map(interpret).join(', and ');
+}
+
+function interpretWord(token: DependencyToken, html: boolean): string {
+  const position = { value: token.id };
+  switch (token.pos) {
+    case 'PN':
+      return wrap('Buffalo', COLOR_PN, html, position);
+    case 'N':
+      return wrap('bison', COLOR_N, html, position);
+    case 'V':
+      return wrap('intimidate', COLOR_V, html, position);
+    default:
+      return token.word;
+  }
+}
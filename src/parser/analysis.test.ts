@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeGrammar } from './analysis.js';
+import { Grammar, createEnglishGrammar } from './grammar.js';
+
+describe('analyzeGrammar', () => {
+  it('should report on the English grammar', () => {
+    expect(analyzeGrammar(createEnglishGrammar())).toEqual({
+      unreachable: ['ADVP'],
+      unproductive: [],
+      nullable: [],
+      unitCycles: [],
+      leftRecursive: ['S', 'NP', 'VP'],
+      undefinedSymbols: [],
+    });
+  });
+
+  it('should find unit-rule cycles', () => {
+    const g = new Grammar()
+      .addRule('S', ['NP', 'VP'])
+      .addRule('NP', ['RC'])
+      .addRule('RC', ['NP'])
+      .addRule('NP', ['N'])
+      .addRule('VP', ['VP'])
+      .addRule('VP', ['V']);
+
+    expect(analyzeGrammar(g).unitCycles).toEqual([['NP', 'RC'], ['VP']]);
+  });
+
+  it('should find nullable symbols and the cycles they create', () => {
+    const g = new Grammar()
+      .addRule('S', ['NP', 'VP'])
+      .addRule('NP', ['DET', 'N'])
+      .addRule('NP', ['ADVP', 'NP', 'ADVP'])
+      .addRule('ADVP', [])
+      .addRule('ADVP', ['ADV'])
+      .addRule('VP', ['V']);
+    const report = analyzeGrammar(g);
+
+    expect(report.nullable).toEqual(['ADVP']);
+    expect(report.unitCycles).toEqual([['NP']]);
+    expect(report.leftRecursive).toEqual(['NP']);
+  });
+
+  it('should find indirect left recursion', () => {
+    const g = new Grammar()
+      .addRule('S', ['NP', 'V'])
+      .addRule('NP', ['PP', 'N'])
+      .addRule('PP', ['NP', 'PREP'])
+      .addRule('NP', ['N']);
+
+    expect(analyzeGrammar(g).leftRecursive).toEqual(['NP', 'PP']);
+  });
+
+  it('should find unreachable and unproductive non-terminals', () => {
+    const g = new Grammar()
+      .addRule('S', ['NP', 'VP'])
+      .addRule('NP', ['N'])
+      .addRule('VP', ['V', 'VP'])
+      .addRule('PP', ['PREP', 'NP']);
+    const report = analyzeGrammar(g);
+
+    expect(report.unreachable).toEqual(['PP']);
+    expect(report.unproductive).toEqual(['S', 'VP']);
+  });
+
+  it('should find undefined symbols', () => {
+    const g = new Grammar()
+      .addRule('S', ['NP', 'VP'])
+      .addRule('NP', ['N'])
+      .addRule('VP', ['V', 'NP', 'ADVPP']);
+
+    expect(analyzeGrammar(g).undefinedSymbols).toEqual(['ADVPP']);
+  });
+
+  it('should check symbols against declared terminals', () => {
+    const g = new Grammar({ terminals: ['D', 'NUM'] })
+      .addRule('S', ['DP'])
+      .addRule('DP', ['D', 'NUM', 'N']);
+
+    expect(analyzeGrammar(g).undefinedSymbols).toEqual(['N']);
+  });
+});
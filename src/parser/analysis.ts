@@ -0,0 +1,177 @@
+import type { GrammarRule, GrammarSymbol, NonTerminal } from '../types.js';
+import { PARTS_OF_SPEECH } from '../types.js';
+import type { Grammar } from './grammar.js';
+
+/**
+ * Static checks on a grammar, each list in the order symbols first appear.
+ */
+export interface GrammarReport {
+  /** Non-terminals the start symbol can never derive */
+  unreachable: NonTerminal[];
+  /** Non-terminals that can never derive a string of terminals */
+  unproductive: NonTerminal[];
+  /** Non-terminals that can derive the empty string */
+  nullable: NonTerminal[];
+  /** Groups of non-terminals that derive each other through unit rules (A ⇒+ A) */
+  unitCycles: NonTerminal[][];
+  /** Non-terminals that can derive a string starting with themselves (A ⇒+ A ...) */
+  leftRecursive: NonTerminal[];
+  /** RHS symbols with no rules that are not known terminals */
+  undefinedSymbols: GrammarSymbol[];
+}
+
+/**
+ * Analyze a grammar for problems that make parsing slow, ambiguous or
+ * impossible. Terminals are the grammar's declared terminals, or the
+ * built-in parts of speech if it declares none.
+ */
+export function analyzeGrammar(grammar: Grammar): GrammarReport {
+  const rules = grammar.getAllRules();
+  const nonTerminals = grammar.getNonTerminals();
+  const declared = grammar.getDeclaredTerminals();
+  const knownTerminals = new Set<string>(declared.length > 0 ? declared : PARTS_OF_SPEECH);
+
+  const undefinedSymbols = new Set<GrammarSymbol>();
+  for (const rule of rules) {
+    for (const symbol of rule.rhs) {
+      if (grammar.isTerminal(symbol) && !knownTerminals.has(symbol)) {
+        undefinedSymbols.add(symbol);
+      }
+    }
+  }
+
+  const nullable = fixpoint(rules, (rule, found) =>
+    rule.rhs.every(symbol => found.has(symbol)));
+  const productive = fixpoint(rules, (rule, found) =>
+    rule.rhs.every(symbol => grammar.isTerminal(symbol) || found.has(symbol)));
+  const reachable = reachableFrom(grammar, grammar.startSymbol);
+
+  // A ⇒ B when B can be all that is left of a rule for A once nullable symbols vanish
+  const unitEdges = edges(nonTerminals, rules, (rule, i) =>
+    rule.rhs.every((symbol, j) => j === i || nullable.has(symbol)));
+  // A ⇒ B ... when everything before B can vanish
+  const leftEdges = edges(nonTerminals, rules, (rule, i) =>
+    rule.rhs.slice(0, i).every(symbol => nullable.has(symbol)));
+
+  const unitCycles = stronglyConnected(nonTerminals, unitEdges)
+    .filter(group => isCycle(group, unitEdges));
+  const leftRecursive = new Set(stronglyConnected(nonTerminals, leftEdges)
+    .filter(group => isCycle(group, leftEdges))
+    .flat());
+
+  return {
+    unreachable: nonTerminals.filter(symbol => !reachable.has(symbol)),
+    unproductive: nonTerminals.filter(symbol => !productive.has(symbol)),
+    nullable: nonTerminals.filter(symbol => nullable.has(symbol)),
+    unitCycles,
+    leftRecursive: nonTerminals.filter(symbol => leftRecursive.has(symbol)),
+    undefinedSymbols: [...undefinedSymbols],
+  };
+}
+
+/**
+ * Grow a set of LHS symbols until no rule adds a new one.
+ */
+function fixpoint(
+  rules: GrammarRule[],
+  qualifies: (rule: GrammarRule, found: Set<GrammarSymbol>) => boolean
+): Set<GrammarSymbol> {
+  const found = new Set<GrammarSymbol>();
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const rule of rules) {
+      if (!found.has(rule.lhs) && qualifies(rule, found)) {
+        found.add(rule.lhs);
+        changed = true;
+      }
+    }
+  }
+  return found;
+}
+
+function reachableFrom(grammar: Grammar, start: NonTerminal): Set<GrammarSymbol> {
+  const reached = new Set<GrammarSymbol>([start]);
+  const stack: NonTerminal[] = [start];
+  while (stack.length > 0) {
+    for (const rule of grammar.getRulesFor(stack.pop()!)) {
+      for (const symbol of rule.rhs) {
+        if (!reached.has(symbol) && grammar.isNonTerminal(symbol)) {
+          reached.add(symbol);
+          stack.push(symbol);
+        }
+      }
+    }
+  }
+  return reached;
+}
+
+/**
+ * Build edges from each LHS to the non-terminals at RHS positions that pass the test.
+ */
+function edges(
+  nonTerminals: NonTerminal[],
+  rules: GrammarRule[],
+  test: (rule: GrammarRule, index: number) => boolean
+): Map<NonTerminal, Set<NonTerminal>> {
+  const known = new Set(nonTerminals);
+  const result = new Map<NonTerminal, Set<NonTerminal>>(nonTerminals.map(symbol => [symbol, new Set()]));
+  for (const rule of rules) {
+    rule.rhs.forEach((symbol, i) => {
+      if (known.has(symbol) && test(rule, i)) result.get(rule.lhs)!.add(symbol);
+    });
+  }
+  return result;
+}
+
+/** A component is a cycle if it has several members or a self-loop */
+function isCycle(group: NonTerminal[], graph: Map<NonTerminal, Set<NonTerminal>>): boolean {
+  return group.length > 1 || graph.get(group[0]!)!.has(group[0]!);
+}
+
+/**
+ * Tarjan's strongly connected components, each listed in grammar order.
+ */
+function stronglyConnected(
+  nodes: NonTerminal[],
+  graph: Map<NonTerminal, Set<NonTerminal>>
+): NonTerminal[][] {
+  const order = new Map(nodes.map((node, i) => [node, i]));
+  const index = new Map<NonTerminal, number>();
+  const low = new Map<NonTerminal, number>();
+  const stack: NonTerminal[] = [];
+  const onStack = new Set<NonTerminal>();
+  const components: NonTerminal[][] = [];
+
+  const visit = (node: NonTerminal): void => {
+    index.set(node, index.size);
+    low.set(node, index.get(node)!);
+    stack.push(node);
+    onStack.add(node);
+
+    for (const next of graph.get(node)!) {
+      if (!index.has(next)) {
+        visit(next);
+        low.set(node, Math.min(low.get(node)!, low.get(next)!));
+      } else if (onStack.has(next)) {
+        low.set(node, Math.min(low.get(node)!, index.get(next)!));
+      }
+    }
+
+    if (low.get(node) === index.get(node)) {
+      const component: NonTerminal[] = [];
+      let member: NonTerminal;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      components.push(component.sort((a, b) => order.get(a)! - order.get(b)!));
+    }
+  };
+
+  for (const node of nodes) {
+    if (!index.has(node)) visit(node);
+  }
+  return components.sort((a, b) => order.get(a[0]!)! - order.get(b[0]!)!);
+}
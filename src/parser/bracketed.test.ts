@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { fromBracketed, toBracketed } from './bracketed.js';
+import { EarleyParser } from './earley.js';
+import { Grammar, createEnglishGrammar } from './grammar.js';
+import { createBuffaloLexicon, createTestLexicon } from './lexicon.js';
+import { FormatError } from './errors.js';
+import type { ParseNode } from '../types.js';
+
+/** A node without features or lexicon entries, as bracketed notation keeps it */
+function bare(node: ParseNode): ParseNode {
+  const result: ParseNode = { symbol: node.symbol, children: node.children.map(bare), span: node.span };
+  if (node.word !== undefined) result.word = node.word;
+  return result;
+}
+
+describe('toBracketed', () => {
+  it('should write Penn Treebank notation', () => {
+    const parser = new EarleyParser(createEnglishGrammar(), createBuffaloLexicon());
+    const tree = parser.parse(['Buffalo', 'buffalo', 'buffalo'], [['PN'], ['N'], ['V']]).trees[0]!;
+
+    expect(toBracketed(tree)).toBe('(S (NP (PN Buffalo) (N buffalo)) (VP (V buffalo)))');
+  });
+
+  it('should write empty phrases and escape brackets in words', () => {
+    const tree = fromBracketed('(S (NP (DET the) (ADJP) (N -LRB-)) (VP (V ran)))');
+
+    expect(tree.root.children[0]!.children[2]!.word).toBe('(');
+    expect(toBracketed(tree)).toBe('(S (NP (DET the) (ADJP) (N -LRB-)) (VP (V ran)))');
+  });
+
+  it('should escape brackets inside words and read them back', () => {
+    const tree = fromBracketed('(S (NP (N a-RRB-b)) (VP (V f-LRB-x-RRB-)))');
+    const [noun, verb] = [tree.root.children[0]!.children[0]!, tree.root.children[1]!.children[0]!];
+
+    expect([noun.word, verb.word]).toEqual(['a)b', 'f(x)']);
+    expect(toBracketed(tree)).toBe('(S (NP (N a-RRB-b)) (VP (V f-LRB-x-RRB-)))');
+    expect(fromBracketed(toBracketed(tree))).toEqual(tree);
+  });
+});
+
+describe('fromBracketed', () => {
+  it('should read words, spans and the sentence', () => {
+    const tree = fromBracketed('(S (NP (PN Buffalo) (N buffalo)) (VP (V buffalo)))');
+
+    expect(tree.sentence).toEqual(['Buffalo', 'buffalo', 'buffalo']);
+    expect(tree.root.span).toEqual([0, 3]);
+    expect(tree.root.children.map(c => [c.symbol, c.span])).toEqual([['NP', [0, 2]], ['VP', [2, 3]]]);
+    expect(tree.root.children[1]!.children[0]).toEqual({ symbol: 'V', children: [], word: 'buffalo', span: [2, 3] });
+  });
+
+  it('should accept treebank layout: line breaks and an unlabeled outer bracket', () => {
+    const text = '( (S\n    (NP (N buffalo))\n    (VP (V buffalo))) )';
+    expect(toBracketed(fromBracketed(text))).toBe('(S (NP (N buffalo)) (VP (V buffalo)))');
+  });
+
+  it('should round-trip every parse of a sentence', () => {
+    const parsers = [
+      { parser: new EarleyParser(createEnglishGrammar(), createBuffaloLexicon()), input: ['buffalo', 'buffalo', 'buffalo', 'buffalo', 'buffalo'] },
+      { parser: new EarleyParser(createEnglishGrammar(), createTestLexicon()), input: ['the', 'dog', 'chased', 'the', 'cat', 'in', 'the', 'house'] },
+      { parser: new EarleyParser(Grammar.fromText('S -> NP V\nNP -> DET ADJP N\nADJP -> ε | ADJ'), createTestLexicon()), input: ['the', 'dog', 'ran'] },
+    ];
+
+    for (const { parser, input } of parsers) {
+      for (const tree of parser.parse(input).trees) {
+        const copy = fromBracketed(toBracketed(tree));
+        expect(copy.root).toEqual(bare(tree.root));
+        expect(copy.sentence).toEqual(input);
+      }
+    }
+  });
+
+  it('should report malformed trees with their line', () => {
+    const bad = ['', '(S (NP (N dog))', '(S (NP (N dog)))) extra', '(S ())', '(NP dog (N x))', '(S (NP (N dog)) ((VP (V ran))))'];
+    for (const text of bad) {
+      expect(() => fromBracketed(text), text).toThrow(FormatError);
+    }
+
+    try {
+      fromBracketed('(S\n  (NP (N dog))\n  (VP (V ran) dog))');
+    } catch (e) {
+      expect((e as FormatError).issues).toEqual([{ line: 3, message: 'expected ")", got "dog"' }]);
+    }
+  });
+});
@@ -0,0 +1,140 @@
+import type { ParseNode, ParseTree } from '../types.js';
+import { FormatError } from './errors.js';
+
+/**
+ * Penn Treebank bracketed notation, as read and written by most
+ * linguistics tools:
+ *
+ *   (S (NP (PN Buffalo) (N buffalo)) (VP (V buffalo)))
+ *
+ * A word is written inside its part of speech; a phrase lists its children.
+ * An empty phrase is written `(ADJP)`. Brackets in words become `-LRB-` and
+ * `-RRB-`. Only symbols and words are kept: features, lexicon entries and
+ * probabilities do not survive the round trip.
+ */
+
+const ESCAPES: Record<string, string> = { '(': '-LRB-', ')': '-RRB-' };
+const UNESCAPES: Record<string, string> = { '-LRB-': '(', '-RRB-': ')' };
+
+/**
+ * Write a parse tree on one line in bracketed notation.
+ */
+export function toBracketed(tree: ParseTree): string {
+  return nodeToBracketed(tree.root);
+}
+
+function nodeToBracketed(node: ParseNode): string {
+  if (node.children.length === 0) {
+    return node.word === undefined ? `(${node.symbol})` : `(${node.symbol} ${node.word.replace(/[()]/g, b => ESCAPES[b]!)})`;
+  }
+  return `(${node.symbol} ${node.children.map(nodeToBracketed).join(' ')})`;
+}
+
+/** A bracket or a label/word, with the line it is on */
+interface Token {
+  text: string;
+  line: number;
+}
+
+/**
+ * Read a tree in bracketed notation. Spans are numbered from the words in
+ * order, and an unlabeled outer bracket, as in `( (S ...) )`, is dropped.
+ * @throws FormatError if the brackets or labels are malformed
+ */
+export function fromBracketed(text: string): ParseTree {
+  const reader = new BracketReader(text);
+  if (reader.done) reader.fail('no tree found');
+  const tree = reader.readTree();
+  if (!reader.done) reader.fail(`unexpected "${reader.peek()}" after the tree`);
+  return tree;
+}
+
+/**
+ * Read every tree in a treebank file: trees one after another, laid out
+ * on any number of lines, each read as by fromBracketed.
+ * @throws FormatError at the first malformed tree
+ */
+export function readTreebank(text: string): ParseTree[] {
+  const reader = new BracketReader(text);
+  const trees: ParseTree[] = [];
+  while (!reader.done) trees.push(reader.readTree());
+  return trees;
+}
+
+/**
+ * Reads trees from bracketed text, token by token.
+ */
+class BracketReader {
+  private tokens: Token[] = [];
+  private next = 0;
+  private sentence: string[] = [];
+
+  constructor(private text: string) {
+    text.split('\n').forEach((lineText, index) => {
+      for (const match of lineText.matchAll(/[()]|[^\s()]+/g)) {
+        this.tokens.push({ text: match[0], line: index + 1 });
+      }
+    });
+  }
+
+  get done(): boolean {
+    return this.next >= this.tokens.length;
+  }
+
+  peek(): string | undefined {
+    return this.tokens[this.next]?.text;
+  }
+
+  fail(message: string): never {
+    const line = this.tokens[this.next]?.line ?? this.text.split('\n').length;
+    throw new FormatError('bracketed tree', [{ line, message }]);
+  }
+
+  readTree(): ParseTree {
+    this.sentence = [];
+    const root = this.readNode(true);
+    return { root, sentence: this.sentence };
+  }
+
+  private readNode(outermost = false): ParseNode {
+    this.expect('(');
+    const start = this.sentence.length;
+
+    // Unlabeled wrapper around the whole tree
+    if (outermost && this.peek() === '(') {
+      const child = this.readNode();
+      this.expect(')');
+      return child;
+    }
+
+    const label = this.peek();
+    if (label === undefined || isBracket(label)) this.fail(label ? 'empty brackets' : 'missing label');
+    this.next++;
+    const node: ParseNode = { symbol: label, children: [], span: [start, start] };
+
+    const word = this.peek();
+    if (word !== undefined && !isBracket(word)) {
+      node.word = word.replace(/-LRB-|-RRB-/g, escape => UNESCAPES[escape]!);
+      this.sentence.push(node.word);
+      this.next++;
+    } else {
+      while (this.peek() === '(') {
+        node.children.push(this.readNode());
+      }
+    }
+
+    this.expect(')');
+    node.span = [start, this.sentence.length];
+    return node;
+  }
+
+  private expect(bracket: string): void {
+    const token = this.peek();
+    if (token !== bracket) this.fail(token ? `expected "${bracket}", got "${token}"` : `expected "${bracket}" before the end`);
+    this.next++;
+  }
+}
+
+function isBracket(token: string): boolean {
+  return token === '(' || token === ')';
+}
@@ -0,0 +1,72 @@
+import type { ParseBudget, ParseError, ParseOptions } from '../types.js';
+
+/** Trees returned when no maxTrees is given */
+export const DEFAULT_MAX_TREES = 100;
+
+/**
+ * Thrown inside the parser to unwind out of chart building when a budget
+ * runs out. parse() turns it into a result; methods that return a forest,
+ * a count or lazy trees let it escape.
+ */
+export class BudgetExceeded extends Error {
+  constructor(readonly budget: Exclude<ParseBudget, 'maxTrees'>) {
+    super(`Parse budget exceeded: ${budget}`);
+    this.name = 'BudgetExceeded';
+  }
+}
+
+/**
+ * Tracks one parse's spending against its options. The clock starts when
+ * the budget is created.
+ */
+export class Budget {
+  readonly maxTrees: number;
+  readonly onTree?: (found: number, totalCount: bigint) => void;
+  private items = 0;
+  private deadline: number;
+
+  constructor(private options: ParseOptions = {}) {
+    this.maxTrees = options.maxTrees ?? DEFAULT_MAX_TREES;
+    this.onTree = options.onTree;
+    this.deadline = options.timeoutMs === undefined ? Infinity : Date.now() + options.timeoutMs;
+  }
+
+  /**
+   * Count one new chart item, throwing BudgetExceeded if that is one too many
+   * or time is up.
+   */
+  spendItem(): void {
+    this.items++;
+    if (this.options.maxChartItems !== undefined && this.items > this.options.maxChartItems) {
+      throw new BudgetExceeded('maxChartItems');
+    }
+    this.check();
+  }
+
+  /**
+   * Throw BudgetExceeded if time is up or the signal has been aborted.
+   */
+  check(): void {
+    const exceeded = this.exceeded();
+    if (exceeded) throw new BudgetExceeded(exceeded);
+  }
+
+  /** The time or abort budget that has run out, if any */
+  exceeded(): 'timeoutMs' | 'signal' | null {
+    if (this.options.signal?.aborted) return 'signal';
+    if (Date.now() > this.deadline) return 'timeoutMs';
+    return null;
+  }
+
+  /** The error reported for a budget that ran out */
+  errorFor(budget: Exclude<ParseBudget, 'maxTrees'>): ParseError {
+    switch (budget) {
+      case 'maxChartItems':
+        return { kind: 'ChartLimit', limit: this.options.maxChartItems! };
+      case 'timeoutMs':
+        return { kind: 'Timeout', limitMs: this.options.timeoutMs! };
+      case 'signal':
+        return { kind: 'Aborted' };
+    }
+  }
+}
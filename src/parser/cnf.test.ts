@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { toChomskyNormalForm } from './cnf.js';
+import { Grammar, createEnglishGrammar } from './grammar.js';
+
+describe('toChomskyNormalForm', () => {
+  it('should binarize long rules from the left', () => {
+    const grammar = new Grammar().addRule('VP', ['V', 'NP', 'PP']).addRule('NP', ['N']).addRule('PP', ['PREP', 'NP']);
+    const cnf = toChomskyNormalForm(grammar);
+
+    expect(cnf.binary.map(r => [r.lhs, r.rhs, r.dot])).toEqual([
+      ['[VP → V NP • PP]', ['V', 'NP'], 2],
+      ['VP', ['[VP → V NP • PP]', 'PP'], 3],
+      ['PP', ['PREP', 'NP'], 2],
+    ]);
+    expect(cnf.unary.map(r => [r.lhs, r.rhs])).toEqual([['NP', ['N']]]);
+  });
+
+  it('should keep every rule at most two symbols long and remember its source', () => {
+    const grammar = createEnglishGrammar();
+    const cnf = toChomskyNormalForm(grammar);
+
+    for (const rule of [...cnf.binary, ...cnf.unary]) {
+      expect(rule.rhs.length).toBeLessThanOrEqual(2);
+      expect(grammar.getAllRules()).toContain(rule.source);
+    }
+    // Each original rule ends in exactly one CNF rule for its LHS
+    const complete = [...cnf.binary, ...cnf.unary].filter(r => r.dot === r.source.rhs.length);
+    expect(complete.map(r => r.source)).toEqual(expect.arrayContaining(grammar.getAllRules()));
+    expect(complete).toHaveLength(grammar.getAllRules().length);
+  });
+
+  it('should reject empty rules', () => {
+    const grammar = new Grammar().addRule('S', ['NP']).addRule('NP', []);
+    expect(() => toChomskyNormalForm(grammar)).toThrow('NP -> ε');
+  });
+});
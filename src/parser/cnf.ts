@@ -0,0 +1,73 @@
+import type { GrammarRule, NonTerminal, PartOfSpeech } from '../types.js';
+import type { Grammar } from './grammar.js';
+
+/**
+ * A rule of a grammar in Chomsky normal form, remembering the original rule
+ * it came from so trees can be read back in terms of the original grammar.
+ *
+ * A rule longer than two symbols is binarized from the left: `VP → V NP PP`
+ * becomes `[VP → V NP • PP] → V NP` and `VP → [VP → V NP • PP] PP`, where
+ * the bracketed symbol stands for the first `dot` symbols of the original.
+ */
+export interface CNFRule {
+  /** An original non-terminal, or a prefix symbol of a longer rule */
+  lhs: string;
+  /** One symbol (a unit rule) or two */
+  rhs: [string] | [string, string];
+  /** The original rule */
+  source: GrammarRule;
+  /** How many of the original RHS symbols are recognized once this rule applies */
+  dot: number;
+}
+
+/**
+ * A grammar in Chomsky normal form. Parts of speech act as preterminals,
+ * filled in from the lexicon. Unit rules are kept rather than eliminated,
+ * so that no phrase of an original tree is lost.
+ */
+export interface CNFGrammar {
+  startSymbol: NonTerminal;
+  terminals: PartOfSpeech[];
+  binary: CNFRule[];
+  unary: CNFRule[];
+}
+
+/**
+ * Convert a grammar to Chomsky normal form by binarizing its long rules.
+ * @throws Error if the grammar has an empty rule, which has no normal form
+ *   that keeps its trees
+ */
+export function toChomskyNormalForm(grammar: Grammar): CNFGrammar {
+  const binary: CNFRule[] = [];
+  const unary: CNFRule[] = [];
+
+  for (const source of grammar.getAllRules()) {
+    const { lhs, rhs } = source;
+    if (rhs.length === 0) {
+      throw new Error(`Cannot convert the empty rule ${lhs} -> ε to Chomsky normal form`);
+    }
+    if (rhs.length === 1) {
+      unary.push({ lhs, rhs: [rhs[0]!], source, dot: 1 });
+      continue;
+    }
+
+    let left: string = rhs[0]!;
+    for (let dot = 2; dot <= rhs.length; dot++) {
+      const symbol = dot === rhs.length ? lhs : prefixSymbol(source, dot);
+      binary.push({ lhs: symbol, rhs: [left, rhs[dot - 1]!], source, dot });
+      left = symbol;
+    }
+  }
+
+  return { startSymbol: grammar.startSymbol, terminals: grammar.getTerminals(), binary, unary };
+}
+
+/**
+ * Name the symbol for the first `dot` RHS symbols of a rule.
+ */
+function prefixSymbol(rule: GrammarRule, dot: number): string {
+  const before = rule.rhs.slice(0, dot).join(' ');
+  const after = rule.rhs.slice(dot).join(' ');
+  return `[${rule.lhs} → ${before} • ${after}]`;
+}
+
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  allowsPos,
+  constraintsForSelection,
+  sentenceForSelection,
+  treePartsOfSpeech,
+  treeMatchesConstraints,
+  type SelectedWord,
+} from './constraints.js';
+import { EarleyParser } from './earley.js';
+import { Grammar, createEnglishGrammar } from './grammar.js';
+import { createBuffaloLexicon, createTestLexicon } from './lexicon.js';
+import type { PartOfSpeech } from '../types.js';
+
+describe('allowsPos', () => {
+  it('should allow everything for "any" or a missing constraint', () => {
+    expect(allowsPos('any', 'V')).toBe(true);
+    expect(allowsPos(undefined, 'PN')).toBe(true);
+  });
+
+  it('should only allow listed parts of speech', () => {
+    expect(allowsPos(['N', 'V'], 'V')).toBe(true);
+    expect(allowsPos(['N', 'V'], 'PN')).toBe(false);
+  });
+});
+
+describe('Sentence builder selection', () => {
+  const words: SelectedWord[] = [
+    { word: 'buffalo', pos: 'PN' },
+    { word: 'buffalo', pos: 'WILD' },
+    { word: 'buffalo', pos: 'V' },
+  ];
+
+  it('should constrain fixed words and leave the wildcard open', () => {
+    expect(constraintsForSelection(words, false)).toEqual([['PN'], 'any', ['V']]);
+  });
+
+  it('should leave every word open in wild mode', () => {
+    expect(constraintsForSelection(words, true)).toEqual(['any', 'any', 'any']);
+  });
+
+  it('should capitalize only the city', () => {
+    expect(sentenceForSelection(words)).toEqual(['Buffalo', 'buffalo', 'buffalo']);
+  });
+});
+
+describe('Constrained parsing', () => {
+  const parser = new EarleyParser(createEnglishGrammar(), createBuffaloLexicon());
+
+  it('should only return trees matching the constraints', () => {
+    const constraints = constraintsForSelection([
+      { word: 'buffalo', pos: 'PN' },
+      { word: 'buffalo', pos: 'N' },
+      { word: 'buffalo', pos: 'V' },
+    ], false);
+    const result = parser.parse(['Buffalo', 'buffalo', 'buffalo'], constraints);
+
+    expect(result.trees.length).toBeGreaterThan(0);
+    for (const tree of result.trees) {
+      expect(treePartsOfSpeech(tree)).toEqual(['PN', 'N', 'V']);
+      expect(treeMatchesConstraints(tree, constraints)).toBe(true);
+    }
+  });
+
+  it('should match filtering every expansion of the wildcard', () => {
+    const input = ['buffalo', 'buffalo', 'buffalo', 'buffalo'];
+    const constraints: Array<PartOfSpeech[] | 'any'> = [['N'], 'any', ['N'], ['V']];
+
+    const expected = parser.parse(input).trees
+      .filter(t => treeMatchesConstraints(t, constraints))
+      .map(t => JSON.stringify(t.root))
+      .sort();
+    const actual = parser.parse(input, constraints).trees
+      .map(t => JSON.stringify(t.root))
+      .sort();
+
+    expect(actual).toEqual(expected);
+  });
+
+  it('should find no parse when the constraints rule out every reading', () => {
+    const result = parser.parse(['buffalo', 'buffalo'], [['V'], ['PN']]);
+
+    expect(result.trees).toHaveLength(0);
+    expect(result.totalCount).toBe(0n);
+  });
+
+  it('should count constrained parses', () => {
+    const input = ['buffalo', 'buffalo', 'buffalo'];
+    const open = parser.countParses(input, ['any', 'any', 'any']);
+    const fixed = parser.countParses(input, [['PN'], ['N'], ['V']]);
+
+    expect(open).toBe(parser.countParses(input));
+    expect(fixed).toBeGreaterThan(0n);
+    expect(fixed).toBeLessThan(open);
+  });
+
+  it('should skip empty phrases when reading tags', () => {
+    const grammar = Grammar.fromText('S -> NP V\nNP -> DET ADJP N\nADJP -> ε | ADJ');
+    const tree = new EarleyParser(grammar, createTestLexicon()).parse(['the', 'dog', 'ran']).trees[0]!;
+
+    expect(treePartsOfSpeech(tree)).toEqual(['DET', 'N', 'V']);
+    expect(treeMatchesConstraints(tree, [['DET'], 'any', ['V']])).toBe(true);
+  });
+});
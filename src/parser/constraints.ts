@@ -0,0 +1,60 @@
+import type { GrammarSymbol, ParseNode, ParseTree, PartOfSpeech, PositionConstraint } from '../types.js';
+
+/**
+ * A word chosen in the sentence builder: either a fixed part of speech
+ * or the Golden Buffalo wildcard, which may be read as any of them.
+ */
+export interface SelectedWord {
+  word: string;
+  pos: PartOfSpeech | 'WILD';
+}
+
+/**
+ * Check whether a constraint admits a part of speech.
+ */
+export function allowsPos(constraint: PositionConstraint | undefined, pos: GrammarSymbol): boolean {
+  if (constraint === undefined || constraint === 'any') return true;
+  return (constraint as GrammarSymbol[]).includes(pos);
+}
+
+/**
+ * Build per-position parser constraints for the sentence builder.
+ * In wild mode every word is unconstrained; otherwise only the wildcard is.
+ */
+export function constraintsForSelection(words: SelectedWord[], wildMode: boolean): PositionConstraint[] {
+  return words.map(w => (wildMode || w.pos === 'WILD' ? 'any' : [w.pos]));
+}
+
+/**
+ * Spell out the builder's words as parser input.
+ * The city is capitalized; the animal and the verb are not.
+ */
+export function sentenceForSelection(words: SelectedWord[]): string[] {
+  return words.map(w => (w.pos === 'PN' ? 'Buffalo' : 'buffalo'));
+}
+
+/**
+ * Get the terminal POS tags of a parse tree in sentence order.
+ */
+export function treePartsOfSpeech(tree: ParseTree): GrammarSymbol[] {
+  const tags: GrammarSymbol[] = [];
+  const visit = (node: ParseNode): void => {
+    if (node.children.length === 0) {
+      // Empty phrases cover no words
+      if (node.span[0] < node.span[1]) tags.push(node.symbol);
+      return;
+    }
+    node.children.forEach(visit);
+  };
+  visit(tree.root);
+  return tags;
+}
+
+/**
+ * Check whether a tree's POS sequence satisfies per-position constraints.
+ */
+export function treeMatchesConstraints(tree: ParseTree, constraints: PositionConstraint[]): boolean {
+  const tags = treePartsOfSpeech(tree);
+  if (tags.length !== constraints.length) return false;
+  return constraints.every((c, i) => allowsPos(c, tags[i]!));
+}
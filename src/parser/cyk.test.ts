@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { CYKParser } from './cyk.js';
+import { EarleyParser } from './earley.js';
+import { Grammar, createEnglishGrammar } from './grammar.js';
+import { createBuffaloLexicon, createTestLexicon } from './lexicon.js';
+import type { IntermediateNode, ParseForest, PackedNode, SymbolNode } from './forest.js';
+import { featuresKey } from './features.js';
+import { BudgetExceeded } from './budget.js';
+import type { Parser, PositionConstraint } from '../types.js';
+
+/** Every sequence of `length` Buffalo parts of speech, as constraints */
+function buffaloReadings(length: number): PositionConstraint[][] {
+  if (length === 0) return [[]];
+  return buffaloReadings(length - 1).flatMap(prefix => (['PN', 'N', 'V'] as const).map(pos => [...prefix, [pos]]));
+}
+
+/**
+ * Every tree of a forest as an id, sorted. Trees share an id when their
+ * symbols, features and words agree throughout, given the same `ids`.
+ * Each distinct subtree is labeled once, so even the 148,405 trees of
+ * eight buffalos can be compared in full without building them.
+ */
+function treeIds(forest: ParseForest, ids: Map<string, number>): number[] {
+  const idOf = (key: string): number => {
+    if (!ids.has(key)) ids.set(key, ids.size);
+    return ids.get(key)!;
+  };
+  const trees = new Map<SymbolNode, number[]>();
+  const prefixes = new Map<IntermediateNode, number[][]>();
+
+  const treesOf = (node: SymbolNode): number[] => {
+    let result = trees.get(node);
+    if (!result) {
+      result = node.packed.length === 0
+        ? [idOf(`${node.symbol}${featuresKey(node.features)} ${node.word}`)]
+        : node.packed.flatMap(packed => childrenOf(packed).map(children =>
+          idOf(`${node.symbol}${featuresKey(packed.features ?? node.features)}(${children.join(',')})`)));
+      trees.set(node, result);
+    }
+    return result;
+  };
+  const childrenOf = (packed: PackedNode): number[][] => {
+    const heads = packed.left ? prefixesOf(packed.left) : [[]];
+    if (!packed.right) return heads;
+    const lasts = treesOf(packed.right);
+    return heads.flatMap(head => lasts.map(last => [...head, last]));
+  };
+  const prefixesOf = (node: IntermediateNode): number[][] => {
+    let result = prefixes.get(node);
+    if (!result) {
+      result = node.packed.flatMap(childrenOf);
+      prefixes.set(node, result);
+    }
+    return result;
+  };
+
+  return forest.root ? treesOf(forest.root).sort((a, b) => a - b) : [];
+}
+
+describe('CYKParser', () => {
+  const grammar = createEnglishGrammar();
+
+  const buffalo = { earley: new EarleyParser(grammar, createBuffaloLexicon()), cyk: new CYKParser(grammar, createBuffaloLexicon()) };
+
+  /** Compare every tree the parsers find for an input */
+  function expectSameTrees(input: string[], constraints?: PositionConstraint[]): void {
+    const ids = new Map<string, number>();
+    const expected = buffalo.earley.parseForest(input, constraints);
+    const actual = buffalo.cyk.parseForest(input, constraints);
+    const label = constraints ? constraints.join(' ') : input.join(' ');
+
+    const trees = treeIds(actual, ids);
+    expect(actual.count(), label).toBe(expected.count());
+    expect(trees, label).toHaveLength(Number(expected.count()));
+    expect(trees, label).toEqual(treeIds(expected, ids));
+  }
+
+  it('should give the same trees as Earley for every Buffalo sentence up to length 8', () => {
+    for (let length = 1; length <= 8; length++) {
+      expectSameTrees(Array<string>(length).fill('buffalo'));
+    }
+  });
+
+  it('should give the same trees as Earley for every reading of Buffalo sentences up to length 6', () => {
+    for (let length = 1; length <= 6; length++) {
+      for (const constraints of buffaloReadings(length)) {
+        expectSameTrees(Array<string>(length).fill('buffalo'), constraints);
+      }
+    }
+  });
+
+  it('should rank trees by probability like Earley', () => {
+    const parsers: Parser[] = [new EarleyParser(grammar, createTestLexicon()), new CYKParser(grammar, createTestLexicon())];
+    const input = ['the', 'dog', 'chased', 'the', 'cat', 'with', 'the', 'big', 'bird'];
+    const [earley, cyk] = parsers.map(parser => parser.parse(input));
+
+    expect(cyk!.trees.map(t => t.probability)).toEqual(earley!.trees.map(t => t.probability));
+    expect(cyk!.trees[0]).toEqual(earley!.trees[0]);
+    expect(parsers[1]!.bestParse(input)).toEqual(parsers[0]!.bestParse(input));
+  });
+
+  it('should enforce agreement and constraints', () => {
+    const cyk = new CYKParser(grammar, createTestLexicon());
+
+    expect(cyk.countParses(['the', 'dog', 'runs'])).toBeGreaterThan(0n);
+    expect(cyk.countParses(['the', 'dogs', 'runs'])).toBe(0n);
+
+    const buffalo = new CYKParser(grammar, createBuffaloLexicon());
+    const input = ['buffalo', 'buffalo', 'buffalo'];
+    expect(buffalo.countParses(input, [['N'], ['N'], ['V']]))
+      .toBe(new EarleyParser(grammar, createBuffaloLexicon()).countParses(input, [['N'], ['N'], ['V']]));
+  });
+
+  it('should handle unit cycles like Earley', () => {
+    const cyclic = Grammar.fromText('S -> NP VP | NP\nNP -> S | N\nVP -> V');
+    const lexicon = createBuffaloLexicon();
+    const input = ['buffalo', 'buffalo'];
+
+    expect(new CYKParser(cyclic, lexicon).countParses(input)).toBe(new EarleyParser(cyclic, lexicon).countParses(input));
+  });
+
+  it('should report failures and budgets in the same shape', () => {
+    const cyk = new CYKParser(grammar, createTestLexicon());
+
+    expect(cyk.parse([]).errors).toEqual([{ kind: 'EmptyInput' }]);
+    expect(cyk.parse(['the', 'xyzzy']).errors).toEqual([
+      { kind: 'UnknownWord', position: 1, word: 'xyzzy' },
+      { kind: 'NoParse', furthestPosition: 1, expected: [] },
+    ]);
+    expect(cyk.parse(['the', 'dog', 'ran'], undefined, { maxChartItems: 3 }).budgetHit).toBe('maxChartItems');
+    expect(() => cyk.countParses(['the', 'dog', 'ran'], undefined, { maxChartItems: 3 })).toThrow(BudgetExceeded);
+    expect([...cyk.iterateTrees(['the', 'dog', 'ran'])]).toEqual(cyk.parse(['the', 'dog', 'ran']).trees);
+  });
+
+  it('should refuse grammars with empty rules', () => {
+    const grammar = Grammar.fromText('S -> NP V\nNP -> DET ADJP N\nADJP -> ε | ADJ');
+    expect(() => new CYKParser(grammar, createTestLexicon())).toThrow('Chomsky normal form');
+  });
+});
@@ -0,0 +1,313 @@
+import type {
+  ParseDiagnostics,
+  ParseOptions,
+  ParseResult,
+  ParseTree,
+  Parser,
+  PositionConstraint,
+} from '../types.js';
+import type { Grammar } from './grammar.js';
+import type { Lexicon } from './lexicon.js';
+import { ParseForest, mergeRoots } from './forest.js';
+import type { IntermediateNode, PackedNode, SymbolNode } from './forest.js';
+import { toChomskyNormalForm } from './cnf.js';
+import type { CNFRule } from './cnf.js';
+import { allowsPos } from './constraints.js';
+import { Budget, BudgetExceeded } from './budget.js';
+import { forestResult, stoppedResult, uniqueTrees } from './results.js';
+import { NO_BINDINGS, bindChild, featuresKey, lhsFeatures } from './features.js';
+import type { FeatureBindings } from './features.js';
+import { ruleKey } from './earley.js';
+
+/**
+ * Something recognized over a span: a whole symbol, or the first symbols
+ * of a long rule (one of the CNF grammar's prefix symbols).
+ */
+interface Constituent {
+  /** The CNF symbol it stands for */
+  symbol: string;
+  node: SymbolNode | IntermediateNode;
+  /** Feature values unified so far from the rule prefix's children */
+  bindings: FeatureBindings;
+}
+
+/**
+ * One table cell: everything recognized over the words [start, end).
+ */
+interface Cell {
+  start: number;
+  end: number;
+  /** By symbol and features; iteration also visits constituents added meanwhile */
+  constituents: Map<string, Constituent>;
+  bySymbol: Map<string, Constituent[]>;
+  /** Intermediate nodes for the first symbol of a rule, made when a rule is first applied */
+  firsts: Map<string, IntermediateNode>;
+  packedKeys: Set<string>;
+}
+
+/**
+ * The CYK parser - fills a table of spans bottom-up, shortest first, with
+ * the grammar in Chomsky normal form. It builds the same parse forest as
+ * EarleyParser, in terms of the original rules, so the two can check each
+ * other tree for tree. Grammars with empty rules are not supported:
+ * toChomskyNormalForm cannot remove them without changing the trees, so
+ * the constructor throws and such grammars need EarleyParser.
+ */
+export class CYKParser implements Parser {
+  private binaryByLeft = new Map<string, CNFRule[]>();
+  private unaryByChild = new Map<string, CNFRule[]>();
+
+  /**
+   * @param options Default budgets for parse(), as for EarleyParser
+   * @throws Error if the grammar has an empty rule
+   */
+  constructor(
+    private grammar: Grammar,
+    private lexicon: Lexicon,
+    private options: ParseOptions = {}
+  ) {
+    const cnf = toChomskyNormalForm(grammar);
+    for (const rule of cnf.binary) addTo(this.binaryByLeft, rule.rhs[0], rule);
+    for (const rule of cnf.unary) addTo(this.unaryByChild, rule.rhs[0], rule);
+  }
+
+  /**
+   * Parse an input sentence and return all valid parse trees, most probable
+   * first, exactly as EarleyParser.parse does.
+   */
+  parse(input: string[], constraints?: PositionConstraint[], options?: ParseOptions): ParseResult {
+    const budget = new Budget({ ...this.options, ...options });
+
+    let table: Cell[][];
+    try {
+      table = this.fillTable(input, constraints, budget);
+    } catch (error) {
+      if (!(error instanceof BudgetExceeded)) throw error;
+      return stoppedResult(input, budget, error.budget);
+    }
+    return forestResult(this.forestFor(table, input), budget, () => this.diagnose(table, input));
+  }
+
+  /**
+   * Find the single most probable parse (Viterbi), or null if there is none.
+   * @throws BudgetExceeded if the table runs out of budget
+   */
+  bestParse(input: string[], constraints?: PositionConstraint[], options?: ParseOptions): ParseTree | null {
+    return this.parseForest(input, constraints, options).bestTree();
+  }
+
+  /**
+   * Count the distinct parse trees of an input exactly, however many there are.
+   * @throws BudgetExceeded if the table runs out of budget
+   */
+  countParses(input: string[], constraints?: PositionConstraint[], options?: ParseOptions): bigint {
+    return this.parseForest(input, constraints, options).count();
+  }
+
+  /**
+   * Parse an input sentence into a shared packed parse forest, with the
+   * budgets EarleyParser.parseForest applies.
+   * @throws BudgetExceeded if the table runs out of budget
+   */
+  parseForest(input: string[], constraints?: PositionConstraint[], options?: ParseOptions): ParseForest {
+    const budget = new Budget({ ...this.options, ...options });
+    return this.forestFor(this.fillTable(input, constraints, budget), input);
+  }
+
+  /**
+   * Lazily yield the distinct parse trees of an input, most probable first,
+   * checking the time and signal budgets before each one.
+   * @throws BudgetExceeded if a budget runs out
+   */
+  *iterateTrees(input: string[], constraints?: PositionConstraint[], options?: ParseOptions): Generator<ParseTree> {
+    const budget = new Budget({ ...this.options, ...options });
+    for (const tree of uniqueTrees(this.forestFor(this.fillTable(input, constraints, budget), input).rankedTrees())) {
+      yield tree;
+      budget.check();
+    }
+  }
+
+  /**
+   * Fill the table: the words' parts of speech first, then each span from
+   * every split into two shorter ones. Unit rules close each cell.
+   */
+  private fillTable(input: string[], constraints: PositionConstraint[] | undefined, budget?: Budget): Cell[][] {
+    const table: Cell[][] = input.map(() => []);
+
+    for (let start = 0; start < input.length; start++) {
+      const cell = newCell(start, start + 1);
+      table[start]![start + 1] = cell;
+      this.addWord(cell, input[start]!, constraints?.[start], budget);
+      this.closeUnary(cell, budget);
+    }
+
+    for (let width = 2; width <= input.length; width++) {
+      for (let start = 0; start + width <= input.length; start++) {
+        const end = start + width;
+        const cell = newCell(start, end);
+        table[start]![end] = cell;
+        for (let split = start + 1; split < end; split++) {
+          this.combine(cell, table[start]![split]!, table[split]![end]!, budget);
+        }
+        this.closeUnary(cell, budget);
+      }
+    }
+
+    return table;
+  }
+
+  private forestFor(table: Cell[][], input: string[]): ParseForest {
+    const roots: SymbolNode[] = [];
+    for (const { node } of table[0]?.[input.length]?.constituents.values() ?? []) {
+      if (node.kind === 'symbol' && node.symbol === this.grammar.startSymbol && node.packed.length > 0) {
+        roots.push(node);
+      }
+    }
+    return new ParseForest(input, mergeRoots(roots));
+  }
+
+  /**
+   * Add a terminal node for each reading the word may take: homographs with
+   * the same part of speech keep their own features, as Earley scans them.
+   */
+  private addWord(cell: Cell, word: string, constraint: PositionConstraint | undefined, budget?: Budget): void {
+    for (const { pos, features } of this.lexicon.lookup(word)) {
+      if (!this.grammar.isTerminal(pos) || !allowsPos(constraint, pos)) continue;
+
+      const key = `${pos}${featuresKey(features)}`;
+      if (cell.constituents.has(key)) continue;
+      const node: SymbolNode = { kind: 'symbol', symbol: pos, start: cell.start, end: cell.end, packed: [], word, features };
+      addConstituent(cell, key, { symbol: pos, node, bindings: NO_BINDINGS }, budget);
+    }
+  }
+
+  /**
+   * Apply every binary rule to a pair of adjacent cells.
+   */
+  private combine(cell: Cell, left: Cell, right: Cell, budget?: Budget): void {
+    for (const first of left.constituents.values()) {
+      for (const rule of this.binaryByLeft.get(first.symbol) ?? []) {
+        const prefix = rule.dot === 2 ? firstOf(left, rule, first) : first;
+        if (!prefix) continue;
+
+        for (const second of right.bySymbol.get(rule.rhs[1]!) ?? []) {
+          const child = second.node as SymbolNode;
+          const bindings = bindChild(rule.source, prefix.bindings, rule.dot, child.features);
+          if (!bindings) continue;
+
+          const packed: PackedNode = { rule: rule.source, split: right.start, left: prefix.node as IntermediateNode, right: child };
+          derive(cell, rule, bindings, packed, prefix.bindings, budget);
+        }
+      }
+    }
+  }
+
+  /**
+   * Apply unit rules until no new symbol appears in the cell.
+   */
+  private closeUnary(cell: Cell, budget?: Budget): void {
+    for (const constituent of cell.constituents.values()) {
+      const child = constituent.node;
+      if (child.kind !== 'symbol') continue;
+
+      for (const rule of this.unaryByChild.get(constituent.symbol) ?? []) {
+        const bindings = bindChild(rule.source, NO_BINDINGS, 1, child.features);
+        if (!bindings) continue;
+
+        const packed: PackedNode = { rule: rule.source, split: cell.start, left: null, right: child };
+        derive(cell, rule, bindings, packed, NO_BINDINGS, budget);
+      }
+    }
+  }
+
+  /**
+   * CYK has no notion of a prefix the grammar could continue, so a failed
+   * parse reports where the longest constituent from the first word ends,
+   * with no expected parts of speech.
+   */
+  private diagnose(table: Cell[][], input: string[]): ParseDiagnostics {
+    let furthestPosition = input.length;
+    while (furthestPosition > 0 && table[0]![furthestPosition]!.constituents.size === 0) {
+      furthestPosition--;
+    }
+
+    const unknownWords = input
+      .map((word, position) => ({ position, word }))
+      .filter(({ word }) => !this.lexicon.has(word));
+
+    return { furthestPosition, expected: [], unknownWords };
+  }
+}
+
+function newCell(start: number, end: number): Cell {
+  return { start, end, constituents: new Map(), bySymbol: new Map(), firsts: new Map(), packedKeys: new Set() };
+}
+
+function addTo<T>(map: Map<string, T[]>, key: string, value: T): void {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+}
+
+function addConstituent(cell: Cell, key: string, constituent: Constituent, budget?: Budget): Constituent {
+  budget?.spendItem();
+  cell.constituents.set(key, constituent);
+  addTo(cell.bySymbol, constituent.symbol, constituent);
+  return constituent;
+}
+
+/**
+ * Get the rule prefix holding just a binary rule's first symbol, as the
+ * intermediate node Earley makes after the first child. Null if the
+ * symbol's features clash with the rule.
+ */
+function firstOf(cell: Cell, rule: CNFRule, first: Constituent): Constituent | null {
+  const child = first.node as SymbolNode;
+  const bindings = bindChild(rule.source, NO_BINDINGS, 1, child.features);
+  if (!bindings) return null;
+
+  const key = `${ruleKey(rule.source)}@1${featuresKey(bindings)}`;
+  let node = cell.firsts.get(key);
+  if (!node) {
+    node = { kind: 'intermediate', rule: rule.source, dot: 1, start: cell.start, end: cell.end, packed: [] };
+    node.packed.push({ rule: rule.source, split: cell.start, left: null, right: child });
+    cell.firsts.set(key, node);
+  } else if (!node.packed.some(p => p.right === child)) {
+    node.packed.push({ rule: rule.source, split: cell.start, left: null, right: child });
+  }
+  return { symbol: rule.rhs[0], node, bindings };
+}
+
+/**
+ * Record a derivation by a CNF rule: a packed node under the rule's
+ * symbol (or rule prefix) in the cell, creating it if it is new.
+ * Derivations differ by split point and by the feature variants of either part.
+ */
+function derive(
+  cell: Cell,
+  rule: CNFRule,
+  bindings: FeatureBindings,
+  packed: PackedNode,
+  prefixBindings: FeatureBindings,
+  budget?: Budget
+): void {
+  const { source, dot } = rule;
+  const complete = dot >= source.rhs.length;
+  const features = complete ? lhsFeatures(source, bindings) : undefined;
+  const key = complete
+    ? `${source.lhs}${featuresKey(features)}`
+    : `${ruleKey(source)}@${dot}${featuresKey(bindings)}`;
+
+  const constituent = cell.constituents.get(key) ?? addConstituent(cell, key, {
+    symbol: rule.lhs,
+    node: complete
+      ? { kind: 'symbol', symbol: source.lhs, start: cell.start, end: cell.end, packed: [], features }
+      : { kind: 'intermediate', rule: source, dot, start: cell.start, end: cell.end, packed: [] },
+    bindings: complete ? NO_BINDINGS : bindings,
+  }, budget);
+
+  const packedKey = `${key}|${ruleKey(source)}|${packed.split}${featuresKey(prefixBindings)}|${featuresKey(packed.right?.features)}`;
+  if (cell.packedKeys.has(packedKey)) return;
+  cell.packedKeys.add(packedKey);
+  constituent.node.packed.push(packed);
+}
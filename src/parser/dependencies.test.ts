@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { fromDependencies, toCoNLLU, toDependencies } from './dependencies.js';
+import { fromBracketed, toBracketed } from './bracketed.js';
+import { createBuffaloTreebank, createTestTreebank } from './treebank.js';
+import { createBuffaloLexicon, createTestLexicon } from './lexicon.js';
+import type { DependencyGraph } from '../types.js';
+
+/** Each word as "word:head:relation" */
+function arcs(graph: DependencyGraph): string[] {
+  return graph.tokens.map(token => `${token.word}:${token.head}:${token.relation}`);
+}
+
+describe('toDependencies', () => {
+  it('should convert the famous 8-word sentence', () => {
+    const tree = createBuffaloTreebank().at(-1)!;
+
+    expect(arcs(toDependencies(tree))).toEqual([
+      'Buffalo:2:compound',
+      'buffalo:6:nsubj',
+      'Buffalo:4:compound',
+      'buffalo:5:nsubj',
+      'buffalo:2:acl:relcl',
+      'buffalo:0:root',
+      'Buffalo:8:compound',
+      'buffalo:6:obj',
+    ]);
+  });
+
+  it('should label determiners, modifiers, coordination and prepositions', () => {
+    const [, , modifiers, adverb, coordination, attachment] = createTestTreebank();
+
+    expect(arcs(toDependencies(modifiers!))).toEqual([
+      'the:3:det', 'big:3:amod', 'dog:4:nsubj', 'chased:0:root', 'a:7:det', 'small:7:amod', 'cat:4:obj',
+    ]);
+    expect(arcs(toDependencies(adverb!))).toContain('away:3:advmod');
+    expect(arcs(toDependencies(coordination!))).toEqual([
+      'dogs:4:nsubj', 'and:3:cc', 'cats:1:conj', 'eat:0:root', 'fish:4:obj',
+    ]);
+    expect(arcs(toDependencies(attachment!)).slice(5)).toEqual(['with:8:case', 'the:8:det', 'man:3:obl']);
+  });
+
+  it('should give relative pronouns their role in the clause', () => {
+    const [subject, object] = createTestTreebank().slice(-2);
+
+    expect(arcs(toDependencies(subject!))).toContain('that:4:nsubj');
+    expect(arcs(toDependencies(subject!))).toContain('chase:2:acl:relcl');
+    expect(arcs(toDependencies(object!))).toContain('who:6:obj');
+    expect(arcs(toDependencies(object!))).toContain('bit:2:acl:relcl');
+  });
+
+  it('should skip empty phrases', () => {
+    const tree = fromBracketed('(S (NP (DET the) (ADJP) (N dog)) (VP (V ran)))');
+    expect(arcs(toDependencies(tree))).toEqual(['the:2:det', 'dog:3:nsubj', 'ran:0:root']);
+  });
+
+  it('should head unknown phrases by their first child', () => {
+    const tree = fromBracketed('(X (N buffalo) (V buffalo))');
+    expect(arcs(toDependencies(tree))).toEqual(['buffalo:0:root', 'buffalo:1:dep']);
+  });
+
+  it('should follow custom head rules', () => {
+    const tree = fromBracketed('(PP (PREP with) (NP (N dogs)))');
+    expect(arcs(toDependencies(tree, { headRules: { PP: ['PREP'] } }))).toEqual(['with:0:root', 'dogs:1:dep']);
+  });
+
+  it('should look lemmas up in a lexicon', () => {
+    const tree = fromBracketed('(S (NP (N dogs)) (VP (V chased)))');
+    const graph = toDependencies(tree, { lexicon: createTestLexicon() });
+
+    expect(graph.tokens.map(token => token.lemma)).toEqual(['dog', 'chase']);
+    expect(toDependencies(tree).tokens[0]!.lemma).toBeUndefined();
+  });
+});
+
+describe('fromDependencies', () => {
+  it('should project each head word as a phrase labeled with its relation', () => {
+    const tree = fromBracketed('(S (NP (PN Buffalo) (N buffalo)) (VP (V buffalo) (NP (N buffalo))))');
+
+    expect(toBracketed(fromDependencies(toDependencies(tree)))).toBe(
+      '(root (nsubj (compound (PN Buffalo)) (N buffalo)) (V buffalo) (obj (N buffalo)))'
+    );
+  });
+
+  it('should keep spans and sentence', () => {
+    const tree = createBuffaloTreebank().at(-1)!;
+    const projected = fromDependencies(toDependencies(tree));
+
+    expect(projected.sentence).toEqual(tree.sentence);
+    expect(projected.root.span).toEqual([0, 8]);
+  });
+});
+
+describe('toCoNLLU', () => {
+  it('should write ten tab-separated columns per word', () => {
+    const tree = fromBracketed('(S (NP (PN Buffalo) (N buffalo)) (VP (V buffalo)))');
+    tree.root.children[1]!.children[0]!.features = { tense: 'present', number: 'plural' };
+
+    const text = toCoNLLU(toDependencies(tree, { lexicon: createBuffaloLexicon() }), 'buffalo-3');
+
+    expect(text).toBe([
+      '# sent_id = buffalo-3',
+      '# text = Buffalo buffalo buffalo',
+      '1\tBuffalo\tbuffalo\tPROPN\tPN\t_\t2\tcompound\t_\t_',
+      '2\tbuffalo\tbuffalo\tNOUN\tN\t_\t3\tnsubj\t_\t_',
+      '3\tbuffalo\tbuffalo\tVERB\tV\tNumber=Plur|Tense=Pres\t0\troot\t_\t_',
+      '',
+      '',
+    ].join('\n'));
+  });
+
+  it('should write unknown tags as X and missing lemmas as _', () => {
+    const text = toCoNLLU(toDependencies(fromBracketed('(S (UH wow))')));
+    expect(text.split('\n')[1]).toBe('1\twow\t_\tX\tUH\t_\t0\troot\t_\t_');
+  });
+
+  it('should leave out feature values UD has no name for', () => {
+    const tree = fromBracketed('(S (NP (N dogs)) (VP (V barked)))');
+    tree.root.children[0]!.children[0]!.features = { number: 'plural', person: 4 as never };
+    tree.root.children[1]!.children[0]!.features = { tense: 'pluperfect' as never };
+
+    const lines = toCoNLLU(toDependencies(tree)).split('\n');
+
+    expect(lines[1]!.split('\t')[5]).toBe('Number=Plur');
+    expect(lines[2]!.split('\t')[5]).toBe('_');
+  });
+});
@@ -0,0 +1,239 @@
+import type {
+  DependencyGraph,
+  DependencyToken,
+  GrammarSymbol,
+  GrammaticalFeatures,
+  NonTerminal,
+  ParseNode,
+  ParseTree,
+} from '../types.js';
+import type { Lexicon } from './lexicon.js';
+
+/**
+ * Conversion from constituency trees to Universal Dependencies.
+ *
+ * Each phrase has a head child, chosen by head rules; the head word of a
+ * phrase is the head word of its head child, and every other child's head
+ * word depends on it. The relation comes from the phrase and the
+ * dependent's symbol, so (NP (PN Buffalo) (N buffalo)) makes Buffalo a
+ * compound of buffalo, and an NP under S is the nsubj of the S's verb.
+ * Coordination is headed by the first conjunct.
+ */
+
+/**
+ * Head rules: for each phrase, the children that may head it, most
+ * preferred first. The leftmost child with the first matching symbol wins.
+ */
+export type HeadRules = Partial<Record<NonTerminal, GrammarSymbol[]>>;
+
+/**
+ * Head rules for the English grammar. As in UD, content words are heads:
+ * a PP is headed by its NP, with the preposition as a case marker, and a
+ * relative clause by its verb.
+ */
+export const HEAD_RULES: HeadRules = {
+  S: ['VP', 'S', 'NP'],
+  VP: ['V', 'VP'],
+  NP: ['N', 'NP', 'PN'],
+  PP: ['NP', 'PREP'],
+  RC: ['VP', 'S'],
+  ADJP: ['ADJ', 'ADJP'],
+  ADVP: ['ADV', 'ADVP'],
+};
+
+/**
+ * Relation of a dependent to its head, by phrase and then by the
+ * dependent's symbol. Anything not listed is plain `dep`.
+ */
+const RELATIONS: Record<string, Record<string, string>> = {
+  S: { NP: 'nsubj', S: 'conj', CONJ: 'cc', ADV: 'advmod', ADVP: 'advmod', PP: 'obl' },
+  VP: { NP: 'obj', PP: 'obl', ADV: 'advmod', ADVP: 'advmod', AUX: 'aux', VP: 'conj', CONJ: 'cc' },
+  NP: {
+    DET: 'det',
+    ADJ: 'amod',
+    ADJP: 'amod',
+    PN: 'compound',
+    N: 'compound',
+    RC: 'acl:relcl',
+    PP: 'nmod',
+    NP: 'conj',
+    CONJ: 'cc',
+  },
+  PP: { PREP: 'case' },
+  RC: { NP: 'nsubj' },
+  ADJP: { ADV: 'advmod', ADVP: 'advmod', ADJ: 'conj', ADJP: 'conj', CONJ: 'cc' },
+  ADVP: { ADV: 'advmod', ADVP: 'conj', CONJ: 'cc' },
+};
+
+/** Universal POS tags for the built-in parts of speech */
+const UPOS: Record<string, string> = {
+  N: 'NOUN',
+  V: 'VERB',
+  PN: 'PROPN',
+  DET: 'DET',
+  ADJ: 'ADJ',
+  ADV: 'ADV',
+  PREP: 'ADP',
+  CONJ: 'CCONJ',
+  REL: 'PRON',
+  AUX: 'AUX',
+};
+
+/** Options for toDependencies */
+export interface DependencyOptions {
+  /** Head rules to use instead of HEAD_RULES */
+  headRules?: HeadRules;
+  /** Lexicon to look lemmas up in, for trees without lexicon entries */
+  lexicon?: Lexicon;
+}
+
+/**
+ * Convert a parse tree into a dependency graph, one token per word.
+ * Phrases the head rules do not cover are headed by their first child.
+ *
+ * @example
+ * const graph = toDependencies(tree);
+ * graph.tokens[1]; // { id: 2, word: 'buffalo', head: 6, relation: 'nsubj', ... }
+ */
+export function toDependencies(tree: ParseTree, options: DependencyOptions = {}): DependencyGraph {
+  const headRules = options.headRules ?? HEAD_RULES;
+  const tokens: DependencyToken[] = [];
+
+  /** Add the words under a node, returning the id of its head word (null if it has none) */
+  const convert = (node: ParseNode): number | null => {
+    if (node.children.length === 0) {
+      if (node.word === undefined) return null;
+      const token: DependencyToken = { id: tokens.length + 1, word: node.word, pos: node.symbol, head: 0, relation: 'root' };
+      const lemma = node.entry?.lemma ?? options.lexicon?.lookup(node.word).find(e => e.pos === node.symbol)?.lemma;
+      if (lemma !== undefined) token.lemma = lemma;
+      if (node.features && Object.keys(node.features).length > 0) token.features = node.features;
+      tokens.push(token);
+      return token.id;
+    }
+
+    const heads = node.children.map(convert);
+    const headIndex = findHead(node, heads, headRules);
+    if (headIndex === -1) return null;
+
+    const head = heads[headIndex]!;
+    const headChild = node.children[headIndex]!;
+    node.children.forEach((child, i) => {
+      const dependent = heads[i];
+      if (i === headIndex || dependent === null || dependent === undefined) return;
+      const token = tokens[dependent - 1]!;
+      token.relation = relationFor(node.symbol, headChild.symbol, child.symbol);
+      // As in UD, a conjunction attaches to the conjunct after it
+      const next = child.symbol === 'CONJ' ? heads.slice(i + 1).find(h => h !== null && h !== head) : undefined;
+      token.head = next ?? head;
+    });
+    return head;
+  };
+
+  convert(tree.root);
+  return { sentence: tree.sentence, tokens };
+}
+
+/**
+ * Index of the child heading a phrase, skipping children without words.
+ */
+function findHead(node: ParseNode, heads: (number | null)[], headRules: HeadRules): number {
+  const hasHead = (i: number) => heads[i] !== null;
+  for (const symbol of headRules[node.symbol] ?? []) {
+    const index = node.children.findIndex((child, i) => child.symbol === symbol && hasHead(i));
+    if (index !== -1) return index;
+  }
+  return node.children.findIndex((_, i) => hasHead(i));
+}
+
+function relationFor(phrase: GrammarSymbol, head: GrammarSymbol, dependent: GrammarSymbol): string {
+  // A relative pronoun stands in for the subject (RC → REL VP) or the object (RC → REL S)
+  if (phrase === 'RC' && dependent === 'REL') return head === 'S' ? 'obj' : 'nsubj';
+  return RELATIONS[phrase]?.[dependent] ?? 'dep';
+}
+
+/**
+ * Turn a dependency graph back into a tree, for drawing it with the tree
+ * layouts: each head word projects a phrase labeled with its relation,
+ * holding its own word and its dependents' phrases in sentence order,
+ * so (obj (N buffalo)) is a word without dependents. Several roots are
+ * gathered under a ROOT node.
+ */
+export function fromDependencies(graph: DependencyGraph): ParseTree {
+  const dependents = new Map<number, DependencyToken[]>();
+  for (const token of graph.tokens) {
+    const list = dependents.get(token.head);
+    if (list) list.push(token);
+    else dependents.set(token.head, [token]);
+  }
+
+  const build = (token: DependencyToken): ParseNode => {
+    const word: ParseNode = { symbol: token.pos, children: [], word: token.word, span: [token.id - 1, token.id] };
+    if (token.features) word.features = token.features;
+
+    const children = [...(dependents.get(token.id) ?? []).map(build), word];
+    children.sort((a, b) => a.span[0] - b.span[0]);
+    return { symbol: token.relation, children, span: [children[0]!.span[0], children[children.length - 1]!.span[1]] };
+  };
+
+  const roots = (dependents.get(0) ?? []).map(build);
+  const root: ParseNode = roots.length === 1
+    ? roots[0]!
+    : { symbol: 'ROOT', children: roots, span: [0, graph.tokens.length] };
+  return { root, sentence: graph.sentence };
+}
+
+/**
+ * Write a dependency graph as a CoNLL-U sentence: a `# text` comment, then
+ * one line per word with its ten tab-separated columns, then a blank line.
+ * Sentences written this way can be concatenated into one file.
+ */
+export function toCoNLLU(graph: DependencyGraph, sentenceId?: string): string {
+  const lines: string[] = [];
+  if (sentenceId !== undefined) lines.push(`# sent_id = ${sentenceId}`);
+  lines.push(`# text = ${graph.sentence.join(' ')}`);
+
+  for (const token of graph.tokens) {
+    lines.push([
+      token.id,
+      token.word,
+      token.lemma ?? '_',
+      UPOS[token.pos] ?? 'X',
+      token.pos,
+      formatFeatures(token.features),
+      token.head,
+      token.relation,
+      '_',
+      '_',
+    ].join('\t'));
+  }
+
+  return lines.join('\n') + '\n\n';
+}
+
+const FEATURE_VALUES: Record<string, Record<string, string>> = {
+  Number: { singular: 'Sing', plural: 'Plur' },
+  Person: { 1: '1', 2: '2', 3: '3' },
+  Tense: { present: 'Pres', past: 'Past', future: 'Fut' },
+  Case: { nominative: 'Nom', accusative: 'Acc', genitive: 'Gen' },
+};
+
+/**
+ * UD features, sorted by name: Number=Plur|Tense=Pres.
+ * Values UD has no name for are left out.
+ */
+function formatFeatures(features: GrammaticalFeatures | undefined): string {
+  if (!features) return '_';
+  const values: Record<string, unknown> = {
+    Case: features.case,
+    Number: features.number,
+    Person: features.person,
+    Tense: features.tense,
+  };
+  const pairs = Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .flatMap(([name, value]) => {
+      const ud = FEATURE_VALUES[name]![String(value)];
+      return ud === undefined ? [] : [`${name}=${ud}`];
+    });
+  return pairs.length > 0 ? pairs.join('|') : '_';
+}
@@ -1,7 +1,28 @@
-import type { GrammarRule, NonTerminal, ParseNode, ParseTree, ParseResult } from '../types.js';
+import type {
+  GrammarRule,
+  GrammaticalFeatures,
+  NonTerminal,
+  ParseDiagnostics,
+  ParseNode,
+  ParseTree,
+  ParseResult,
+  PartialParse,
+  PartOfSpeech,
+  ParseOptions,
+  Parser,
+  PositionConstraint,
+  PrefixStatus,
+} from '../types.js';
 import type { Grammar } from './grammar.js';
 import type { Lexicon } from './lexicon.js';
-import { isTerminal, isNonTerminal } from './grammar.js';
+import { ParseForest, mergeRoots } from './forest.js';
+import { ParseSession } from './session.js';
+import { allowsPos } from './constraints.js';
+import { Budget, BudgetExceeded } from './budget.js';
+import { forestResult, stoppedResult, uniqueTrees } from './results.js';
+import { NO_BINDINGS, bindChild, featuresKey, lhsFeatures } from './features.js';
+import type { FeatureBindings } from './features.js';
+import type { ForestNode, IntermediateNode, SymbolNode } from './forest.js';
 
 /**
  * An Earley item represents a partial parse.
@@ -10,299 +31,566 @@ interface EarleyItem {
   rule: GrammarRule;
   dot: number;
   start: number;
-  id: number;
+  /** Feature values unified so far from the recognized children */
+  bindings: FeatureBindings;
+  /** Forest node for the recognized part of the rule (null while dot is 0) */
+  node: ForestNode | null;
 }
 
 /**
- * Edge in the parse forest for tree reconstruction.
+ * One chart column: the items and forest nodes ending at a position.
  */
-interface Edge {
-  itemId: number;
-  children: number[]; // IDs of child items/terminals
-  terminalWord?: string;
+export interface Column {
+  items: EarleyItem[];
+  itemIndex: Map<string, EarleyItem>;
+  nodes: Map<string, ForestNode>;
+  /** Symbols completed over no words at this position, for items that ask for them later */
+  empty: Map<NonTerminal, SymbolNode[]>;
+  packedKeys: Set<string>;
 }
 
+const ruleKeys = new WeakMap<GrammarRule, string>();
+
 /**
- * The Earley parser - handles ambiguous grammars and returns all valid parses.
+ * A rule's identity in chart and forest keys: its LHS and RHS symbols.
  */
-export class EarleyParser {
-  private maxTrees = 100; // Limit number of trees to prevent explosion
+export function ruleKey(rule: GrammarRule): string {
+  let key = ruleKeys.get(rule);
+  if (key === undefined) {
+    key = `${rule.lhs}->${rule.rhs.join(',')}`;
+    ruleKeys.set(rule, key);
+  }
+  return key;
+}
 
+/**
+ * The Earley parser - handles ambiguous grammars and returns all valid parses.
+ */
+export class EarleyParser implements Parser {
+  /**
+   * @param options Default budgets for parse(); at most 100 trees unless
+   *   maxTrees says otherwise
+   */
   constructor(
     private grammar: Grammar,
-    private lexicon: Lexicon
+    private lexicon: Lexicon,
+    private options: ParseOptions = {}
   ) {}
 
   /**
-   * Parse an input sentence and return all valid parse trees.
+   * Parse an input sentence and return all valid parse trees, most probable first.
+   * Optional per-position constraints restrict which parts of speech each word
+   * may take, so a single parse covers every allowed reading.
+   *
+   * Options override the constructor's. If a budget runs out the result is
+   * still returned, with `budgetHit` set: a chart cut short gives no trees,
+   * while running out during tree extraction keeps the trees found so far.
    */
-  parse(input: string[]): ParseResult {
-    if (input.length === 0) {
-      return { input, trees: [], errors: ['Empty input'] };
+  parse(input: string[], constraints?: PositionConstraint[], options?: ParseOptions): ParseResult {
+    const budget = new Budget({ ...this.options, ...options });
+
+    let chart: Column[];
+    try {
+      chart = this.buildChart(input, constraints, false, budget);
+    } catch (error) {
+      if (!(error instanceof BudgetExceeded)) throw error;
+      return stoppedResult(input, budget, error.budget);
     }
+    return this.resultFor(input, chart, budget);
+  }
 
-    // Chart: array of sets, one per position
-    const chart: EarleyItem[][] = [];
-    const chartSet: Set<string>[] = [];
-    for (let i = 0; i <= input.length; i++) {
-      chart.push([]);
-      chartSet.push(new Set());
-    }
+  /**
+   * Start an incremental parse. The session keeps its chart between edits,
+   * so adding a word computes one new column and changing a word only
+   * recomputes the columns after it. The constructor's options limit each
+   * call to results(), as a parse's options would; the chart itself is built
+   * without a budget.
+   */
+  begin(): ParseSession {
+    return new ParseSession({
+      start: () => this.startColumn(false),
+      extend: (chart, word, constraint) => this.extend(chart, word, constraint, false),
+      forest: (chart, input) => new ParseForest(input, this.findRoot(chart[input.length]!)),
+      result: (chart, input, options) => this.resultFor(input, chart, new Budget({ ...this.options, ...options })),
+      trees: (chart, input) => uniqueTrees(new ParseForest(input, this.findRoot(chart[input.length]!)).rankedTrees()),
+      status: chart => this.statusFor(chart),
+    });
+  }
 
-    let nextId = 0;
-    const edges: Map<number, Edge[]> = new Map(); // itemId -> edges that completed it
-
-    const addItem = (pos: number, rule: GrammarRule, dot: number, start: number): EarleyItem | null => {
-      const key = `${rule.lhs}->${rule.rhs.join(',')}@${dot}#${start}`;
-      if (chartSet[pos]!.has(key)) {
-        return chart[pos]!.find(i =>
-          i.rule.lhs === rule.lhs &&
-          i.rule.rhs.length === rule.rhs.length &&
-          i.rule.rhs.every((s, idx) => s === rule.rhs[idx]) &&
-          i.dot === dot &&
-          i.start === start
-        ) ?? null;
-      }
-      chartSet[pos]!.add(key);
-      const item: EarleyItem = { rule, dot, start, id: nextId++ };
-      chart[pos]!.push(item);
-      return item;
-    };
+  /**
+   * Find the single most probable parse (Viterbi), or null if there is none.
+   * @throws BudgetExceeded if the chart runs out of budget
+   */
+  bestParse(input: string[], constraints?: PositionConstraint[], options?: ParseOptions): ParseTree | null {
+    return this.parseForest(input, constraints, options).bestTree();
+  }
 
-    // Initialize with S rules
-    for (const rule of this.grammar.getRulesFor('S')) {
-      addItem(0, rule, 0, 0);
-    }
+  /**
+   * Count the distinct parse trees of an input exactly, however many there are.
+   * Works on the parse forest, so no tree is ever built.
+   * @throws BudgetExceeded if the chart runs out of budget
+   */
+  countParses(input: string[], constraints?: PositionConstraint[], options?: ParseOptions): bigint {
+    return this.parseForest(input, constraints, options).count();
+  }
 
-    // Process chart
-    for (let pos = 0; pos <= input.length; pos++) {
-      let i = 0;
-      while (i < chart[pos]!.length) {
-        const item = chart[pos]![i]!;
-        const nextSymbol = item.rule.rhs[item.dot];
-
-        if (item.dot >= item.rule.rhs.length) {
-          // Completion
-          this.complete(chart, addItem, edges, pos, item);
-        } else if (nextSymbol && isNonTerminal(nextSymbol)) {
-          // Prediction
-          this.predict(addItem, pos, nextSymbol);
-        } else if (nextSymbol && pos < input.length) {
-          // Scanning
-          this.scan(chart, addItem, edges, pos, item, input[pos]!);
-        }
-        i++;
-      }
+  /**
+   * Parse an input sentence into a shared packed parse forest.
+   * The forest holds every parse without expanding them into trees.
+   * Options (merged over the constructor's) limit building the chart;
+   * maxTrees does not apply.
+   * @throws BudgetExceeded if the chart runs out of budget
+   */
+  parseForest(input: string[], constraints?: PositionConstraint[], options?: ParseOptions): ParseForest {
+    return this.forestWithin(input, constraints, new Budget({ ...this.options, ...options }));
+  }
+
+  /**
+   * Lazily yield the distinct parse trees of an input, most probable first.
+   * Each tree is built only when asked for, so a caller can page through
+   * a sentence with millions of parses one tree at a time. The time and
+   * signal budgets are checked before each tree, maxTrees is not: the
+   * caller decides how many to take.
+   *
+   * @example
+   * const trees = parser.iterateTrees(['buffalo', 'buffalo', 'buffalo']);
+   * const best = trees.next().value;
+   * @throws BudgetExceeded if a budget runs out
+   */
+  *iterateTrees(input: string[], constraints?: PositionConstraint[], options?: ParseOptions): Generator<ParseTree> {
+    const budget = new Budget({ ...this.options, ...options });
+    for (const tree of uniqueTrees(this.forestWithin(input, constraints, budget).rankedTrees())) {
+      yield tree;
+      budget.check();
     }
+  }
 
-    // Extract trees and deduplicate
-    const trees = this.extractTrees(chart, edges, input);
-    const uniqueTrees = this.deduplicateTrees(trees);
+  /**
+   * Analyze an input that may not parse: the fewest well-formed constituents
+   * covering it, and where the grammar could no longer continue.
+   * Constituents come from a second chart that predicts every non-terminal at
+   * every position, so phrases are found wherever they start.
+   */
+  recover(input: string[], constraints?: PositionConstraint[]): PartialParse {
+    const chart = this.buildChart(input, constraints, false);
+    const robustChart = this.buildChart(input, constraints, true);
 
     return {
       input,
-      trees: uniqueTrees.slice(0, this.maxTrees),
-      errors: uniqueTrees.length === 0 ? ['No valid parse found'] : undefined,
+      fragments: this.coverFragments(robustChart, input),
+      diagnostics: this.diagnose(chart, input),
     };
   }
 
-  private predict(
-    addItem: (pos: number, rule: GrammarRule, dot: number, start: number) => EarleyItem | null,
-    pos: number,
-    symbol: NonTerminal
-  ): void {
-    for (const rule of this.grammar.getRulesFor(symbol)) {
-      addItem(pos, rule, 0, pos);
-    }
+  /**
+   * Check a sentence prefix: which parts of speech may come next, whether it
+   * is already a sentence, and whether any continuation could make it one.
+   */
+  prefixStatus(input: string[], constraints?: PositionConstraint[]): PrefixStatus {
+    return this.statusFor(this.buildChart(input, constraints, false));
   }
 
-  private scan(
-    _chart: EarleyItem[][],
-    addItem: (pos: number, rule: GrammarRule, dot: number, start: number) => EarleyItem | null,
-    edges: Map<number, Edge[]>,
-    pos: number,
-    item: EarleyItem,
-    word: string
-  ): void {
-    const nextSymbol = item.rule.rhs[item.dot];
-    if (!nextSymbol || !isTerminal(nextSymbol)) return;
-
-    const entries = this.lexicon.lookup(word);
-    for (const entry of entries) {
-      if (entry.pos === nextSymbol) {
-        const newItem = addItem(pos + 1, item.rule, item.dot + 1, item.start);
-        if (newItem) {
-          const edgeList = edges.get(newItem.id) ?? [];
-          edgeList.push({ itemId: item.id, children: [], terminalWord: word });
-          edges.set(newItem.id, edgeList);
+  /**
+   * Enumerate every sequence of `length` words from `vocabulary` that has a parse.
+   * Prefixes are explored depth-first, adding one chart column per word, so
+   * a prefix shared by many sentences is recognized once and a prefix no
+   * sentence starts with is abandoned immediately.
+   */
+  *enumerateSentences(length: number, vocabulary: string[]): Generator<string[]> {
+    if (length <= 0) return;
+
+    yield* this.explore([this.startColumn(false)], [], length, vocabulary);
+  }
+
+  private *explore(chart: Column[], words: string[], length: number, vocabulary: string[]): Generator<string[]> {
+    for (const word of vocabulary) {
+      const column = this.extend(chart, word, undefined, false);
+      words.push(word);
+
+      if (column.items.length > 0) {
+        if (words.length < length) {
+          yield* this.explore(chart, words, length, vocabulary);
+        } else if (this.findRoot(column)) {
+          yield [...words];
         }
       }
+
+      words.pop();
+      chart.pop();
     }
   }
 
-  private complete(
-    chart: EarleyItem[][],
-    addItem: (pos: number, rule: GrammarRule, dot: number, start: number) => EarleyItem | null,
-    edges: Map<number, Edge[]>,
-    pos: number,
-    completedItem: EarleyItem
-  ): void {
-    const completedSymbol = completedItem.rule.lhs;
+  private forestWithin(input: string[], constraints: PositionConstraint[] | undefined, budget: Budget): ParseForest {
+    if (input.length === 0) {
+      return new ParseForest(input, null);
+    }
 
-    for (const waitingItem of chart[completedItem.start]!) {
-      const nextSymbol = waitingItem.rule.rhs[waitingItem.dot];
-      if (nextSymbol === completedSymbol) {
-        const newItem = addItem(pos, waitingItem.rule, waitingItem.dot + 1, waitingItem.start);
-        if (newItem) {
-          const edgeList = edges.get(newItem.id) ?? [];
-          edgeList.push({ itemId: waitingItem.id, children: [completedItem.id] });
-          edges.set(newItem.id, edgeList);
-        }
+    const chart = this.buildChart(input, constraints, false, budget);
+    return new ParseForest(input, this.findRoot(chart[input.length]!));
+  }
+
+  /**
+   * Turn a finished chart into a parse result.
+   */
+  private resultFor(input: string[], chart: Column[], budget: Budget): ParseResult {
+    const forest = new ParseForest(input, input.length > 0 ? this.findRoot(chart[input.length]!) : null);
+    return forestResult(forest, budget, () => this.diagnose(chart, input));
+  }
+
+  /**
+   * Read a prefix's status off its last column. By Earley's prefix property,
+   * the prefix can be continued iff that column waits for a part of speech
+   * the lexicon has words for.
+   */
+  private statusFor(chart: Column[]): PrefixStatus {
+    const column = chart[chart.length - 1]!;
+    const inLexicon = new Set(this.lexicon.getAllEntries().map(entry => entry.pos));
+
+    const expected = new Set<PartOfSpeech>();
+    for (const item of column.items) {
+      const nextSymbol = item.rule.rhs[item.dot];
+      if (nextSymbol && this.grammar.isTerminal(nextSymbol) && inLexicon.has(nextSymbol)) {
+        expected.add(nextSymbol);
       }
     }
+
+    const complete = chart.length > 1 && this.findRoot(column) !== null;
+    return { expected: [...expected], complete, completable: complete || expected.size > 0 };
   }
 
-  private extractTrees(
-    chart: EarleyItem[][],
-    edges: Map<number, Edge[]>,
-    input: string[]
-  ): ParseTree[] {
-    const finalPos = input.length;
-    const trees: ParseTree[] = [];
-
-    // Find completed S items
-    for (const item of chart[finalPos]!) {
-      if (
-        item.rule.lhs === 'S' &&
-        item.dot >= item.rule.rhs.length &&
-        item.start === 0
-      ) {
-        const itemMap = new Map<number, EarleyItem>();
-        for (const pos of chart) {
-          for (const it of pos) {
-            itemMap.set(it.id, it);
-          }
-        }
+  /**
+   * Build the chart for an input, one column per word.
+   * With predictAll, every non-terminal is predicted at every position.
+   */
+  private buildChart(
+    input: string[],
+    constraints: PositionConstraint[] | undefined,
+    predictAll: boolean,
+    budget?: Budget
+  ): Column[] {
+    const chart = [this.startColumn(predictAll, budget)];
+    for (let pos = 0; pos < input.length; pos++) {
+      this.extend(chart, input[pos]!, constraints?.[pos], predictAll, budget);
+    }
+    return chart;
+  }
 
-        const nodes = this.buildNodes(item, edges, itemMap, input, new Set());
-        for (const node of nodes) {
-          if (trees.length >= this.maxTrees) break;
-          trees.push({ root: node, sentence: input, probability: item.rule.probability });
-        }
+  /**
+   * Find how far the chart got: the first word nothing could scan, the
+   * parts of speech expected there, and any words missing from the lexicon.
+   */
+  private diagnose(chart: Column[], input: string[]): ParseDiagnostics {
+    let furthestPosition = 0;
+    while (furthestPosition < input.length && chart[furthestPosition + 1]!.items.length > 0) {
+      furthestPosition++;
+    }
+
+    const expected = new Set<PartOfSpeech>();
+    for (const item of chart[furthestPosition]!.items) {
+      const nextSymbol = item.rule.rhs[item.dot];
+      if (nextSymbol && this.grammar.isTerminal(nextSymbol)) expected.add(nextSymbol);
+    }
+
+    const unknownWords = input
+      .map((word, position) => ({ position, word }))
+      .filter(({ word }) => !this.lexicon.has(word));
+
+    return { furthestPosition, expected: [...expected], unknownWords };
+  }
+
+  /**
+   * Choose the fewest constituents that cover the input left to right.
+   * Ties prefer phrases over bare words, then the most probable cover.
+   * A word no constituent covers becomes a fragment on its own.
+   */
+  private coverFragments(chart: Column[], input: string[]): ParseTree[] {
+    interface Cover { count: number; words: number; probability: number; from: number; node: SymbolNode | null }
+    const scorer = new ParseForest(input, null);
+    const covers: Cover[] = [{ count: 0, words: 0, probability: 1, from: 0, node: null }];
+
+    const better = (a: Cover, b: Cover): boolean =>
+      a.count !== b.count ? a.count < b.count
+        : a.words !== b.words ? a.words < b.words
+          : a.probability > b.probability;
+
+    for (let end = 1; end <= input.length; end++) {
+      let best: Cover | null = null;
+      for (const node of chart[end]!.nodes.values()) {
+        if (node.kind !== 'symbol' || node.start === end || (node.packed.length === 0 && node.word === undefined)) continue;
+        const before = covers[node.start]!;
+        const candidate: Cover = {
+          count: before.count + 1,
+          words: before.words + (node.packed.length === 0 ? 1 : 0),
+          probability: before.probability * scorer.inside(node),
+          from: node.start,
+          node,
+        };
+        if (!best || better(candidate, best)) best = candidate;
       }
+
+      // Fallback: the word alone, even if nothing could scan it
+      const previous = covers[end - 1]!;
+      const alone: Cover = { ...previous, count: previous.count + 1, words: previous.words + 1, from: end - 1, node: null };
+      covers.push(best && !better(alone, best) ? best : alone);
+    }
+
+    const fragments: ParseTree[] = [];
+    for (let end = input.length; end > 0;) {
+      const cover = covers[end]!;
+      fragments.unshift(cover.node
+        ? this.fragmentTree(input, cover.node)
+        : this.wordFragment(input, cover.from));
+      end = cover.from;
     }
+    return fragments;
+  }
 
-    return trees;
+  private fragmentTree(input: string[], node: SymbolNode): ParseTree {
+    if (node.packed.length > 0) {
+      return new ParseForest(input, node).bestTree()!;
+    }
+    const root: ParseNode = { symbol: node.symbol, children: [], span: [node.start, node.end] };
+    root.word = node.word;
+    if (node.features) root.features = node.features;
+    return { root, sentence: input, probability: 1 };
+  }
+
+  /** A lone word, tagged with its first part of speech, or UNK if unknown */
+  private wordFragment(input: string[], position: number): ParseTree {
+    const word = input[position]!;
+    const entry = this.lexicon.lookup(word)[0];
+    const root: ParseNode = { symbol: entry?.pos ?? 'UNK', children: [], span: [position, position + 1] };
+    root.word = word;
+    if (entry?.features) root.features = entry.features;
+    return { root, sentence: input, probability: 1 };
+  }
+
+  private newColumn(): Column {
+    return { items: [], itemIndex: new Map(), nodes: new Map(), empty: new Map(), packedKeys: new Set() };
+  }
+
+  /**
+   * Create the first chart column, predicting the start symbol's rules.
+   */
+  private startColumn(predictAll: boolean, budget?: Budget): Column {
+    const column = this.newColumn();
+    this.predict(column, 0, this.grammar.startSymbol);
+    this.close([column], 0, predictAll, budget);
+    return column;
   }
 
   /**
-   * Remove duplicate parse trees (same structure).
-   * Since all words are "buffalo", many derivations produce identical trees.
+   * Scan the next word into a new column at the end of the chart and close it.
    */
-  private deduplicateTrees(trees: ParseTree[]): ParseTree[] {
-    const seen = new Set<string>();
-    const unique: ParseTree[] = [];
-
-    for (const tree of trees) {
-      const key = this.serializeTree(tree.root);
-      if (!seen.has(key)) {
-        seen.add(key);
-        unique.push(tree);
+  private extend(
+    chart: Column[],
+    word: string,
+    constraint: PositionConstraint | undefined,
+    predictAll: boolean,
+    budget?: Budget
+  ): Column {
+    const pos = chart.length - 1;
+    const column = this.newColumn();
+    chart.push(column);
+
+    for (const item of chart[pos]!.items) {
+      const nextSymbol = item.rule.rhs[item.dot];
+      if (nextSymbol && this.grammar.isTerminal(nextSymbol)) {
+        this.scan(chart, pos, item, word, constraint);
       }
     }
 
-    return unique;
+    this.close(chart, pos + 1, predictAll, budget);
+    return column;
   }
 
   /**
-   * Serialize a parse tree to a string for comparison.
-   * Captures structure and POS tags, ignoring derivation path.
+   * Run prediction and completion on a column until no new items appear.
+   * Scanning the next word is left to extend(). Each item is charged to the
+   * budget, if there is one, as it is processed.
    */
-  private serializeTree(node: ParseNode): string {
-    if (node.children.length === 0) {
-      // Terminal: include symbol and word
-      return `(${node.symbol} "${node.word ?? ''}")`;
+  private close(chart: Column[], pos: number, predictAll: boolean, budget?: Budget): void {
+    const column = chart[pos]!;
+    if (predictAll) {
+      for (const symbol of this.grammar.getNonTerminals()) {
+        this.predict(column, pos, symbol);
+      }
+    }
+
+    let i = 0;
+    while (i < column.items.length) {
+      budget?.spendItem();
+      const item = column.items[i]!;
+      const nextSymbol = item.rule.rhs[item.dot];
+
+      if (item.dot >= item.rule.rhs.length) {
+        // Completion
+        this.complete(chart, pos, item);
+      } else if (nextSymbol && this.grammar.isNonTerminal(nextSymbol)) {
+        // Prediction, and skipping the symbol if it has already been completed
+        // over no words here (Aycock & Horspool)
+        this.predict(column, pos, nextSymbol);
+        for (const node of column.empty.get(nextSymbol) ?? []) {
+          this.advance(column, pos, item, node);
+        }
+      }
+      i++;
     }
-    // Non-terminal: include symbol and serialized children
-    const children = node.children.map(c => this.serializeTree(c)).join(' ');
-    return `(${node.symbol} ${children})`;
   }
 
-  private buildNodes(
-    item: EarleyItem,
-    edges: Map<number, Edge[]>,
-    itemMap: Map<number, EarleyItem>,
-    input: string[],
-    visiting: Set<number>
-  ): ParseNode[] {
-    // Cycle detection
-    if (visiting.has(item.id)) {
-      return [];
+  /**
+   * Find the start symbol node spanning the whole input.
+   */
+  private findRoot(column: Column): SymbolNode | null {
+    const roots: SymbolNode[] = [];
+    for (const node of column.nodes.values()) {
+      if (node.kind === 'symbol' && node.symbol === this.grammar.startSymbol && node.start === 0 && node.packed.length > 0) {
+        roots.push(node);
+      }
     }
-    visiting.add(item.id);
-
-    // If at start of rule, return node with children built from edges
-    if (item.dot === 0) {
-      visiting.delete(item.id);
-      return [{
-        symbol: item.rule.lhs,
-        children: [],
-        span: [item.start, item.start],
-      }];
+
+    return mergeRoots(roots);
+  }
+
+  private addItem(
+    column: Column,
+    rule: GrammarRule,
+    dot: number,
+    start: number,
+    bindings: FeatureBindings,
+    node: ForestNode | null
+  ): EarleyItem {
+    const key = `${ruleKey(rule)}@${dot}#${start}${featuresKey(bindings)}`;
+    const existing = column.itemIndex.get(key);
+    if (existing) return existing;
+
+    const item: EarleyItem = { rule, dot, start, bindings, node };
+    column.itemIndex.set(key, item);
+    column.items.push(item);
+    return item;
+  }
+
+  private predict(column: Column, pos: number, symbol: NonTerminal): void {
+    for (const rule of this.grammar.getRulesFor(symbol)) {
+      const node = rule.rhs.length === 0 ? this.emptyNode(column, pos, rule) : null;
+      this.addItem(column, rule, 0, pos, NO_BINDINGS, node);
     }
+  }
 
-    const results: ParseNode[] = [];
-    const itemEdges = edges.get(item.id) ?? [];
-
-    for (const edge of itemEdges) {
-      const prevItem = itemMap.get(edge.itemId);
-      if (!prevItem) continue;
-
-      // Get trees for the previous state
-      const prevNodes = this.buildNodes(prevItem, edges, itemMap, input, new Set(visiting));
-
-      for (const prevNode of prevNodes) {
-        // Build the child for the current position
-        if (edge.terminalWord !== undefined) {
-          // Terminal
-          const terminalNode: ParseNode = {
-            symbol: item.rule.rhs[item.dot - 1]!,
-            children: [],
-            word: edge.terminalWord,
-            span: [prevNode.span[1], prevNode.span[1] + 1],
-          };
-
-          const newChildren = [...prevNode.children, terminalNode];
-          results.push({
-            symbol: item.rule.lhs,
-            children: newChildren,
-            span: [item.start, prevNode.span[1] + 1],
-          });
-        } else if (edge.children.length > 0) {
-          // Non-terminal completion
-          const childItemId = edge.children[0]!;
-          const childItem = itemMap.get(childItemId);
-          if (!childItem) continue;
-
-          const childNodes = this.buildNodes(childItem, edges, itemMap, input, new Set(visiting));
-
-          for (const childNode of childNodes) {
-            const newChildren = [...prevNode.children, childNode];
-            results.push({
-              symbol: item.rule.lhs,
-              children: newChildren,
-              span: [item.start, childNode.span[1]],
-            });
-          }
-        }
+  /**
+   * Get the symbol node for an empty rule's LHS at this position, with the
+   * rule's derivation packed under it.
+   */
+  private emptyNode(column: Column, pos: number, rule: GrammarRule): SymbolNode {
+    const features = lhsFeatures(rule, NO_BINDINGS);
+    const nodeKey = `${rule.lhs}#${pos}${featuresKey(features)}`;
+    const node = this.getNode(column, nodeKey, rule, 0, pos, pos, features) as SymbolNode;
+
+    const packedKey = `${nodeKey}|${ruleKey(rule)}|ε`;
+    if (!column.packedKeys.has(packedKey)) {
+      column.packedKeys.add(packedKey);
+      node.packed.push({ rule, split: pos, left: null, right: null });
+    }
+    return node;
+  }
 
-        if (results.length >= this.maxTrees) break;
+  private scan(
+    chart: Column[],
+    pos: number,
+    item: EarleyItem,
+    word: string,
+    constraint: PositionConstraint | undefined
+  ): void {
+    const nextSymbol = item.rule.rhs[item.dot];
+    if (!nextSymbol || !this.grammar.isTerminal(nextSymbol)) return;
+    if (!allowsPos(constraint, nextSymbol)) return;
+
+    // Each reading of a homograph is scanned on its own, so agreement sees its exact features
+    const column = chart[pos + 1]!;
+    for (const entry of this.lexicon.lookup(word)) {
+      if (entry.pos !== nextSymbol) continue;
+
+      const key = `${nextSymbol}#${pos}${featuresKey(entry.features)}`;
+      let terminal = column.nodes.get(key) as SymbolNode | undefined;
+      if (!terminal) {
+        terminal = { kind: 'symbol', symbol: nextSymbol, start: pos, end: pos + 1, packed: [], word, features: entry.features };
+        column.nodes.set(key, terminal);
       }
+      this.advance(column, pos + 1, item, terminal);
+    }
+  }
+
+  private complete(chart: Column[], pos: number, completedItem: EarleyItem): void {
+    const completedSymbol = completedItem.rule.lhs;
+    const completedNode = completedItem.node as SymbolNode;
 
-      if (results.length >= this.maxTrees) break;
+    if (completedItem.start === pos) {
+      // Items predicted later in this column still need to skip over it
+      const empty = chart[pos]!.empty.get(completedSymbol) ?? [];
+      if (!empty.includes(completedNode)) empty.push(completedNode);
+      chart[pos]!.empty.set(completedSymbol, empty);
+    }
+
+    for (const waitingItem of chart[completedItem.start]!.items) {
+      const nextSymbol = waitingItem.rule.rhs[waitingItem.dot];
+      if (nextSymbol === completedSymbol) {
+        this.advance(chart[pos]!, pos, waitingItem, completedNode);
+      }
     }
+  }
 
-    visiting.delete(item.id);
-    return results;
+  /**
+   * Move an item's dot over a recognized child, recording the derivation
+   * as a packed node under the advanced item's forest node.
+   * The child's features must unify with the rule's feature equations.
+   */
+  private advance(column: Column, pos: number, item: EarleyItem, child: SymbolNode): void {
+    const { rule, start } = item;
+    const dot = item.dot + 1;
+    const bindings = bindChild(rule, item.bindings, dot, child.features);
+    if (!bindings) return;
+
+    const complete = dot >= rule.rhs.length;
+    const features = complete ? lhsFeatures(rule, bindings) : undefined;
+    const nodeKey = complete
+      ? `${rule.lhs}#${start}${featuresKey(features)}`
+      : `${ruleKey(rule)}@${dot}#${start}${featuresKey(bindings)}`;
+    const node = this.getNode(column, nodeKey, rule, dot, start, pos, features);
+    this.addItem(column, rule, dot, start, bindings, node);
+
+    // Derivations differ by split point and by the feature variants of either part
+    const packedKey = `${nodeKey}|${ruleKey(rule)}|${child.start}${featuresKey(item.bindings)}|${featuresKey(child.features)}`;
+    if (column.packedKeys.has(packedKey)) return;
+    column.packedKeys.add(packedKey);
+
+    node.packed.push({
+      rule,
+      split: child.start,
+      left: item.node as IntermediateNode | null,
+      right: child,
+    });
+  }
+
+  /**
+   * Get or create the forest node for an item ending in this column:
+   * a symbol node once the rule is complete, an intermediate node before.
+   */
+  private getNode(
+    column: Column,
+    key: string,
+    rule: GrammarRule,
+    dot: number,
+    start: number,
+    end: number,
+    features: GrammaticalFeatures | undefined
+  ): ForestNode {
+    let node = column.nodes.get(key);
+    if (!node) {
+      node = dot >= rule.rhs.length
+        ? { kind: 'symbol', symbol: rule.lhs, start, end, packed: [], features }
+        : { kind: 'intermediate', rule, dot, start, end, packed: [] };
+      column.nodes.set(key, node);
+    }
+    return node;
   }
 }
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { FormatError, formatParseError } from './errors.js';
+
+describe('formatParseError', () => {
+  it('should keep the original messages', () => {
+    expect(formatParseError({ kind: 'EmptyInput' })).toBe('Empty input');
+    expect(formatParseError({ kind: 'NoParse', furthestPosition: 2, expected: [] }))
+      .toBe('No valid parse found: stopped at position 3');
+  });
+
+  it('should describe each kind of error', () => {
+    expect(formatParseError({ kind: 'UnknownWord', position: 1, word: 'xyz' }))
+      .toBe('Unknown word "xyz" at position 2');
+    expect(formatParseError({ kind: 'NoParse', furthestPosition: 0, expected: ['N', 'ADJ'] }))
+      .toBe('No valid parse found: stopped at position 1 (expected N or ADJ)');
+    expect(formatParseError({ kind: 'NoParse', furthestPosition: 5, expected: ['PREP'], atEnd: true }))
+      .toBe('No valid parse found: the sentence is incomplete or its words do not agree');
+    expect(formatParseError({ kind: 'Timeout', limitMs: 250 })).toBe('Parsing timed out after 250 ms');
+    expect(formatParseError({ kind: 'ChartLimit', limit: 5000 })).toBe('Parsing stopped after 5000 chart items');
+    expect(formatParseError({ kind: 'Aborted' })).toBe('Parsing was cancelled');
+  });
+});
+
+describe('FormatError', () => {
+  it('should list every issue in its message', () => {
+    const error = new FormatError('grammar', [
+      { line: 2, message: 'first problem' },
+      { line: 5, message: 'second problem' },
+    ]);
+
+    expect(error.name).toBe('FormatError');
+    expect(error.message).toBe('Invalid grammar:\n  line 2: first problem\n  line 5: second problem');
+  });
+});
@@ -0,0 +1,47 @@
+import type { ParseError } from '../types.js';
+
+/**
+ * A problem found on one line of a grammar or lexicon file.
+ */
+export interface FormatIssue {
+  /** 1-based line number */
+  line: number;
+  message: string;
+}
+
+/**
+ * Thrown when grammar or lexicon text cannot be loaded.
+ * Lists every bad line rather than stopping at the first.
+ */
+export class FormatError extends Error {
+  constructor(
+    readonly format: string,
+    readonly issues: FormatIssue[]
+  ) {
+    super(`Invalid ${format}:\n${issues.map(i => `  line ${i.line}: ${i.message}`).join('\n')}`);
+    this.name = 'FormatError';
+  }
+}
+
+/**
+ * Describe a parse error in words, e.g. for logs or a status line.
+ */
+export function formatParseError(error: ParseError): string {
+  switch (error.kind) {
+    case 'EmptyInput':
+      return 'Empty input';
+    case 'UnknownWord':
+      return `Unknown word "${error.word}" at position ${error.position + 1}`;
+    case 'NoParse': {
+      if (error.atEnd) return 'No valid parse found: the sentence is incomplete or its words do not agree';
+      const expected = error.expected.length > 0 ? ` (expected ${error.expected.join(' or ')})` : '';
+      return `No valid parse found: stopped at position ${error.furthestPosition + 1}${expected}`;
+    }
+    case 'Timeout':
+      return `Parsing timed out after ${error.limitMs} ms`;
+    case 'ChartLimit':
+      return `Parsing stopped after ${error.limit} chart items`;
+    case 'Aborted':
+      return 'Parsing was cancelled';
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { compareTrees, evaluateParser } from './evaluation.js';
+import { fromBracketed, toBracketed } from './bracketed.js';
+import { createBuffaloTreebank, createTestTreebank } from './treebank.js';
+import { EarleyParser } from './earley.js';
+import { CYKParser } from './cyk.js';
+import { createEnglishGrammar } from './grammar.js';
+import { createBuffaloLexicon, createTestLexicon } from './lexicon.js';
+
+describe('compareTrees', () => {
+  const gold = fromBracketed('(S (NP (N buffalo)) (VP (V buffalo) (NP (N buffalo))))');
+
+  it('should score labeled and unlabeled brackets', () => {
+    const predicted = fromBracketed('(S (VP (V buffalo) (NP (PN buffalo) (N buffalo))))');
+    const { labeled, unlabeled } = compareTrees(gold, predicted);
+
+    // Gold: S 0-3, NP 0-1, VP 1-3, NP 2-3. Predicted: S 0-3, VP 0-3, NP 1-3
+    expect(labeled).toMatchObject({ matched: 1, gold: 4, predicted: 3 });
+    expect(labeled.precision).toBeCloseTo(1 / 3);
+    expect(labeled.recall).toBeCloseTo(1 / 4);
+    expect(labeled.f1).toBeCloseTo(2 / 7);
+    // 0-3 matches once, however often it is predicted; 1-3 matches without its label
+    expect(unlabeled).toMatchObject({ matched: 2, precision: 2 / 3, recall: 2 / 4 });
+  });
+
+  it('should give a perfect score to the gold tree itself', () => {
+    expect(compareTrees(gold, gold).labeled).toMatchObject({ matched: 4, precision: 1, recall: 1, f1: 1 });
+  });
+
+  it('should give no recall when there is no parse', () => {
+    expect(compareTrees(gold, null).labeled).toEqual({ matched: 0, gold: 4, predicted: 0, precision: 0, recall: 0, f1: 0 });
+  });
+
+  it('should not count words or empty phrases as brackets', () => {
+    const withEmpty = fromBracketed('(S (NP (DET the) (ADJP) (N dog)) (VP (V ran)))');
+    expect(compareTrees(withEmpty, withEmpty).labeled.gold).toBe(3);
+  });
+});
+
+describe('evaluateParser', () => {
+  const grammar = createEnglishGrammar();
+
+  it('should parse every test sentence as its gold tree', () => {
+    const report = evaluateParser(new EarleyParser(grammar, createTestLexicon()), createTestTreebank());
+
+    expect(report.sentences).toHaveLength(8);
+    expect(report.labeled.f1).toBe(1);
+    expect(report.unlabeled.f1).toBe(1);
+    expect(report.exactMatch).toBe(1);
+    expect(report.oracleRecall).toBe(1);
+  });
+
+  it('should find every Buffalo gold tree among the parses, though not always first', () => {
+    const report = evaluateParser(new EarleyParser(grammar, createBuffaloLexicon()), createBuffaloTreebank());
+
+    expect(report.oracleRecall).toBe(1);
+    expect(report.exactMatch).toBeLessThan(1);
+    expect(report.exactMatch).toBe(report.sentences.filter(s => s.exactMatch).length / report.sentences.length);
+    expect(report.labeled.matched).toBe(report.sentences.reduce((n, s) => n + s.labeled.matched, 0));
+    expect(report.labeled.recall).toBeLessThan(report.unlabeled.recall);
+  });
+
+  it('should score any Parser the same way', () => {
+    const gold = createBuffaloTreebank();
+    const earley = evaluateParser(new EarleyParser(grammar, createBuffaloLexicon()), gold);
+    const cyk = evaluateParser(new CYKParser(grammar, createBuffaloLexicon()), gold);
+
+    expect(cyk.labeled).toEqual(earley.labeled);
+    expect(cyk.oracleRecall).toEqual(earley.oracleRecall);
+  });
+
+  it('should count a sentence with no parse against recall and oracle', () => {
+    const gold = [fromBracketed('(S (NP (N unicorns)) (VP (V run)))'), ...createTestTreebank().slice(0, 1)];
+    const report = evaluateParser(new EarleyParser(grammar, createTestLexicon()), gold);
+
+    expect(report.sentences[0]!.predicted).toBeNull();
+    expect(report.oracleRecall).toBe(0.5);
+    expect(report.labeled.precision).toBe(1);
+    expect(report.labeled.recall).toBe(3 / 6);
+  });
+});
+
+describe('Gold treebanks', () => {
+  it('should hold well-formed trees over their lexicons', () => {
+    const lexicons = [[createBuffaloTreebank(), createBuffaloLexicon()], [createTestTreebank(), createTestLexicon()]] as const;
+    for (const [trees, lexicon] of lexicons) {
+      for (const tree of trees) {
+        expect(tree.sentence.every(word => lexicon.has(word)), tree.sentence.join(' ')).toBe(true);
+        expect(fromBracketed(toBracketed(tree))).toEqual(tree);
+      }
+    }
+    expect(createBuffaloTreebank().at(-1)!.sentence).toHaveLength(8);
+  });
+});
@@ -0,0 +1,146 @@
+import type { ParseNode, ParseOptions, ParseTree, Parser } from '../types.js';
+import { toBracketed } from './bracketed.js';
+
+/**
+ * PARSEVAL evaluation against gold-standard trees.
+ *
+ * A tree's brackets are its phrases as (label, start, end); unlabeled
+ * brackets drop the label. As in evalb, words and their parts of speech are
+ * not brackets, and neither are empty phrases. Brackets are matched as
+ * multisets, so a unary chain of the same label counts once per level.
+ */
+
+/** Bracket counts and the scores computed from them (each from 0 to 1) */
+export interface BracketScores {
+  /** Brackets in both the gold and the predicted tree */
+  matched: number;
+  gold: number;
+  predicted: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+/** How the parser did on one gold sentence */
+export interface SentenceEvaluation {
+  gold: ParseTree;
+  /** The parser's most probable tree, or null if it found none */
+  predicted: ParseTree | null;
+  labeled: BracketScores;
+  unlabeled: BracketScores;
+  /** Whether the most probable tree is exactly the gold tree */
+  exactMatch: boolean;
+  /** Whether the gold tree is among the trees the parser returned */
+  oracle: boolean;
+}
+
+/** Scores over a whole gold set */
+export interface EvaluationReport {
+  sentences: SentenceEvaluation[];
+  /** Bracket scores summed over every sentence (micro-averaged, as evalb does) */
+  labeled: BracketScores;
+  unlabeled: BracketScores;
+  /** Fraction of sentences whose most probable tree is the gold tree */
+  exactMatch: number;
+  /** Fraction of sentences whose gold tree is among the returned trees */
+  oracleRecall: number;
+}
+
+/**
+ * Parse each gold tree's sentence and score the result against it.
+ * Options go to each parse; maxTrees sets how deep oracle recall looks.
+ *
+ * @example
+ * const report = evaluateParser(parser, createTestTreebank());
+ * report.labeled.f1; // 1 when every best parse is the gold tree
+ */
+export function evaluateParser(parser: Parser, gold: ParseTree[], options?: ParseOptions): EvaluationReport {
+  const sentences = gold.map((goldTree): SentenceEvaluation => {
+    const { trees } = parser.parse(goldTree.sentence, undefined, options);
+    const predicted = trees[0] ?? null;
+    const goldText = toBracketed(goldTree);
+
+    return {
+      gold: goldTree,
+      predicted,
+      ...compareTrees(goldTree, predicted),
+      exactMatch: predicted !== null && toBracketed(predicted) === goldText,
+      oracle: trees.some(tree => toBracketed(tree) === goldText),
+    };
+  });
+
+  const total = (pick: (s: SentenceEvaluation) => BracketScores): BracketScores =>
+    scores(
+      sum(sentences.map(s => pick(s).matched)),
+      sum(sentences.map(s => pick(s).gold)),
+      sum(sentences.map(s => pick(s).predicted))
+    );
+
+  return {
+    sentences,
+    labeled: total(s => s.labeled),
+    unlabeled: total(s => s.unlabeled),
+    exactMatch: fraction(sentences.filter(s => s.exactMatch).length, sentences.length),
+    oracleRecall: fraction(sentences.filter(s => s.oracle).length, sentences.length),
+  };
+}
+
+/**
+ * Score a predicted tree's brackets against a gold tree's. A missing
+ * prediction matches nothing, so it has zero recall.
+ */
+export function compareTrees(
+  gold: ParseTree,
+  predicted: ParseTree | null
+): { labeled: BracketScores; unlabeled: BracketScores } {
+  const goldBrackets = brackets(gold.root);
+  const predictedBrackets = predicted ? brackets(predicted.root) : [];
+  const unlabeled = (bracket: string): string => bracket.slice(bracket.indexOf(' ') + 1);
+
+  return {
+    labeled: scores(matches(goldBrackets, predictedBrackets), goldBrackets.length, predictedBrackets.length),
+    unlabeled: scores(
+      matches(goldBrackets.map(unlabeled), predictedBrackets.map(unlabeled)),
+      goldBrackets.length,
+      predictedBrackets.length
+    ),
+  };
+}
+
+/** Each phrase as "label start end" */
+function brackets(node: ParseNode): string[] {
+  if (node.children.length === 0 || node.span[0] === node.span[1]) return [];
+  const [start, end] = node.span;
+  return [`${node.symbol} ${start} ${end}`, ...node.children.flatMap(brackets)];
+}
+
+/** Size of the multiset intersection */
+function matches(gold: string[], predicted: string[]): number {
+  const remaining = new Map<string, number>();
+  for (const bracket of gold) remaining.set(bracket, (remaining.get(bracket) ?? 0) + 1);
+
+  let matched = 0;
+  for (const bracket of predicted) {
+    const left = remaining.get(bracket) ?? 0;
+    if (left > 0) {
+      remaining.set(bracket, left - 1);
+      matched++;
+    }
+  }
+  return matched;
+}
+
+function scores(matched: number, gold: number, predicted: number): BracketScores {
+  const precision = fraction(matched, predicted);
+  const recall = fraction(matched, gold);
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  return { matched, gold, predicted, precision, recall, f1 };
+}
+
+function fraction(part: number, whole: number): number {
+  return whole > 0 ? part / whole : 0;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0);
+}
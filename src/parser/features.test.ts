@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { agree, bindChild, generalize, lhsFeatures, NO_BINDINGS } from './features.js';
+import type { GrammarRule } from '../types.js';
+
+describe('generalize', () => {
+  it('should keep only shared feature values', () => {
+    expect(generalize([
+      { tense: 'present', number: 'plural' },
+      { tense: 'present', number: 'singular', person: 1 },
+    ])).toEqual({ tense: 'present' });
+  });
+
+  it('should return undefined when nothing is shared', () => {
+    expect(generalize([{ number: 'singular' }, { number: 'plural' }])).toBeUndefined();
+    expect(generalize([{ number: 'singular' }, undefined])).toBeUndefined();
+    expect(generalize([])).toBeUndefined();
+  });
+});
+
+describe('Feature equations', () => {
+  const rule: GrammarRule = {
+    lhs: 'S',
+    rhs: ['NP', 'VP'],
+    features: [agree(['number'], 0, 1, 2)],
+  };
+
+  it('should bind values from children', () => {
+    const bindings = bindChild(rule, NO_BINDINGS, 1, { number: 'plural' })!;
+    expect(bindChild(rule, bindings, 2, { number: 'plural', tense: 'past' })).not.toBeNull();
+  });
+
+  it('should reject clashing values', () => {
+    const bindings = bindChild(rule, NO_BINDINGS, 1, { number: 'singular' })!;
+    expect(bindChild(rule, bindings, 2, { number: 'plural' })).toBeNull();
+  });
+
+  it('should let unspecified values unify with anything', () => {
+    const bindings = bindChild(rule, NO_BINDINGS, 1, undefined)!;
+    expect(bindChild(rule, bindings, 2, { number: 'singular' })).not.toBeNull();
+  });
+
+  it('should pass agreed values up to the LHS', () => {
+    const bindings = bindChild(rule, NO_BINDINGS, 2, { number: 'singular', person: 3 })!;
+    expect(lhsFeatures(rule, bindings)).toEqual({ number: 'singular' });
+  });
+
+  it('should leave rules without equations unconstrained', () => {
+    const plain: GrammarRule = { lhs: 'S', rhs: ['NP', 'VP'] };
+    expect(bindChild(plain, NO_BINDINGS, 1, { number: 'plural' })).toBe(NO_BINDINGS);
+    expect(lhsFeatures(plain, NO_BINDINGS)).toBeUndefined();
+  });
+});
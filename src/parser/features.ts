@@ -0,0 +1,99 @@
+import type { FeatureEquation, FeatureName, GrammarRule, GrammaticalFeatures } from '../types.js';
+
+/**
+ * Feature values bound so far while recognizing a rule, keyed by
+ * equation index and feature name (e.g. "0.number").
+ */
+export type FeatureBindings = Readonly<Record<string, string | number>>;
+
+export const NO_BINDINGS: FeatureBindings = Object.freeze({});
+
+/**
+ * Build a feature equation: the symbols at `positions` must agree on `features`.
+ * Position 0 is the rule's LHS, 1..n its RHS symbols.
+ *
+ * @example agree(['number', 'person'], 1, 2) // S → NP VP: NP and VP agree
+ */
+export function agree(features: FeatureName[], ...positions: number[]): FeatureEquation {
+  return { features, positions };
+}
+
+/**
+ * Generalize feature bundles: keep only the values they all share.
+ * Used to label a tree node whose readings (like singular and plural "fish") all fit.
+ */
+export function generalize(bundles: Array<GrammaticalFeatures | undefined>): GrammaticalFeatures | undefined {
+  const [first, ...rest] = bundles;
+  if (!first) return undefined;
+
+  const result: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(first)) {
+    if (value !== undefined && rest.every(b => b?.[name as FeatureName] === value)) {
+      result[name] = value;
+    }
+  }
+  return Object.keys(result).length > 0 ? result as GrammaticalFeatures : undefined;
+}
+
+/**
+ * Unify a child's features into a rule's bindings.
+ * `position` is the child's 1-based RHS position. Returns null on a clash.
+ */
+export function bindChild(
+  rule: GrammarRule,
+  bindings: FeatureBindings,
+  position: number,
+  features: GrammaticalFeatures | undefined
+): FeatureBindings | null {
+  const equations = rule.features;
+  if (!equations || !features) return bindings;
+
+  let result: Record<string, string | number> | null = null;
+  for (let index = 0; index < equations.length; index++) {
+    const equation: FeatureEquation = equations[index]!;
+    if (!equation.positions.includes(position)) continue;
+
+    for (const name of equation.features) {
+      const value = features[name];
+      if (value === undefined) continue;
+
+      const key = `${index}.${name}`;
+      const bound = (result ?? bindings)[key];
+      if (bound === undefined) {
+        result ??= { ...bindings };
+        result[key] = value;
+      } else if (bound !== value) {
+        return null;
+      }
+    }
+  }
+
+  return result ?? bindings;
+}
+
+/**
+ * Get the features a completed rule passes up to its LHS.
+ */
+export function lhsFeatures(rule: GrammarRule, bindings: FeatureBindings): GrammaticalFeatures | undefined {
+  if (!rule.features) return undefined;
+
+  const result: Record<string, string | number> = {};
+  rule.features.forEach((equation, index) => {
+    if (!equation.positions.includes(0)) return;
+    for (const name of equation.features) {
+      const value = bindings[`${index}.${name}`];
+      if (value !== undefined) result[name] = value;
+    }
+  });
+  return Object.keys(result).length > 0 ? result as GrammaticalFeatures : undefined;
+}
+
+/**
+ * Serialize features or bindings into a stable key.
+ */
+export function featuresKey(features: object | undefined): string {
+  if (!features) return '';
+  const entries = Object.entries(features).filter(([, v]) => v !== undefined);
+  if (entries.length === 0) return '';
+  return `[${entries.sort(([a], [b]) => (a < b ? -1 : 1)).map(([k, v]) => `${k}=${v}`).join(',')}]`;
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { EarleyParser } from './earley.js';
+import { createEnglishGrammar } from './grammar.js';
+import { createTestLexicon, createBuffaloLexicon } from './lexicon.js';
+import type { Grammar } from './grammar.js';
+import type { NonTerminal, ParseNode } from '../types.js';
+
+describe('ParseForest', () => {
+  const grammar = createEnglishGrammar();
+  const parser = new EarleyParser(grammar, createTestLexicon());
+  const buffaloParser = new EarleyParser(grammar, createBuffaloLexicon());
+
+  it('should have a root spanning the whole input', () => {
+    const forest = parser.parseForest(['the', 'dog', 'ran']);
+
+    expect(forest.isEmpty).toBe(false);
+    expect(forest.root!.symbol).toBe('S');
+    expect(forest.root!.start).toBe(0);
+    expect(forest.root!.end).toBe(3);
+  });
+
+  it('should be empty for unparseable input', () => {
+    expect(parser.parseForest(['the', 'xyz', 'ran']).isEmpty).toBe(true);
+    expect(parser.parseForest([]).isEmpty).toBe(true);
+  });
+
+  it('should enumerate the same trees that parse returns', () => {
+    const input = ['the', 'man', 'who', 'the', 'dog', 'bit', 'ran'];
+    const fromForest = [...parser.parseForest(input).trees()].map(t => serializeTree(t.root));
+    const fromParse = parser.parse(input).trees.map(t => serializeTree(t.root));
+
+    expect(fromForest.sort()).toEqual(fromParse.sort());
+  });
+
+  it('should enumerate each tree exactly once', () => {
+    const trees = [...buffaloParser.parseForest(['buffalo', 'buffalo', 'buffalo', 'buffalo']).trees()];
+    const serialized = trees.map(t => serializeTree(t.root));
+
+    expect(new Set(serialized).size).toBe(serialized.length);
+  });
+
+  it('should share subtrees between parses', () => {
+    const forest = buffaloParser.parseForest(['buffalo', 'buffalo', 'buffalo', 'buffalo', 'buffalo']);
+    const treeCount = [...forest.trees()].length;
+
+    // Hundreds of trees packed into far fewer derivation nodes
+    expect(forest.size.packed).toBeLessThan(treeCount);
+  });
+
+  it('should produce trees lazily', () => {
+    const sentence = Array<string>(8).fill('buffalo');
+    const first = buffaloParser.parseForest(sentence).trees().next();
+
+    expect(first.done).toBe(false);
+    expect(first.value!.root.span).toEqual([0, 8]);
+  });
+});
+
+describe('PCFG scoring', () => {
+  const grammar = createEnglishGrammar();
+  const parser = new EarleyParser(grammar, createBuffaloLexicon());
+  const input = ['buffalo', 'buffalo', 'buffalo', 'buffalo'];
+
+  it('should score a tree as the product of its rule probabilities', () => {
+    for (const tree of parser.parseForest(input).trees()) {
+      expect(tree.probability).toBeCloseTo(ruleProduct(tree.root, grammar), 12);
+    }
+  });
+
+  it('should rank trees from most to least probable', () => {
+    const forest = parser.parseForest(input);
+    const ranked = [...forest.rankedTrees()];
+    const probabilities = ranked.map(t => t.probability!);
+
+    expect(ranked).toHaveLength(Number(forest.count()));
+    expect(probabilities).toEqual([...probabilities].sort((a, b) => b - a));
+    expect(new Set(ranked.map(t => serializeTree(t.root))).size).toBe(ranked.length);
+  });
+
+  it('should find the most probable tree with Viterbi', () => {
+    const forest = parser.parseForest(input);
+    const best = forest.bestTree()!;
+    const maxProbability = Math.max(...[...forest.trees()].map(t => t.probability!));
+
+    expect(best.probability).toBeCloseTo(maxProbability, 12);
+    expect(best.probability).toBeCloseTo(ruleProduct(best.root, grammar), 12);
+    expect(best.probability).toBeCloseTo(forest.rankedTrees().next().value!.probability!, 12);
+  });
+
+  it('should compute the inside probability of the sentence', () => {
+    const forest = parser.parseForest(input);
+    const total = [...forest.trees()].reduce((sum, t) => sum + t.probability!, 0);
+
+    expect(forest.inside()).toBeCloseTo(total, 12);
+  });
+
+  it('should have no best tree for unparseable input', () => {
+    const testParser = new EarleyParser(grammar, createTestLexicon());
+    expect(testParser.bestParse(['the', 'xyz'])).toBeNull();
+    expect(testParser.parseForest(['the', 'xyz']).inside()).toBe(0);
+  });
+});
+
+// Multiply the probabilities of the rules used at each phrase node
+function ruleProduct(node: ParseNode, grammar: Grammar): number {
+  if (node.children.length === 0) return 1;
+  const rhs = node.children.map(c => c.symbol);
+  const rule = grammar.getRulesFor(node.symbol as NonTerminal)
+    .find(r => r.rhs.length === rhs.length && r.rhs.every((s, i) => s === rhs[i]))!;
+  return node.children.reduce((p, c) => p * ruleProduct(c, grammar), rule.probability ?? 1);
+}
+
+function serializeTree(node: ParseNode): string {
+  if (node.children.length === 0) {
+    return `(${node.symbol} "${node.word ?? ''}")`;
+  }
+  return `(${node.symbol} ${node.children.map(serializeTree).join(' ')})`;
+}
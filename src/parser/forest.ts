@@ -0,0 +1,719 @@
+import type { GrammarRule, GrammarSymbol, GrammaticalFeatures, ParseNode, ParseTree } from '../types.js';
+import { featuresKey, generalize } from './features.js';
+
+/**
+ * A symbol node groups every derivation of one grammar symbol over a span.
+ * Terminal nodes have no packed children and carry the scanned word.
+ */
+export interface SymbolNode {
+  kind: 'symbol';
+  symbol: GrammarSymbol;
+  start: number;
+  end: number;
+  /** Alternative derivations (empty for terminal nodes) */
+  packed: PackedNode[];
+  /** For terminal nodes, the word as it appeared in the input */
+  word?: string;
+  /** Features unified from the derivations below (lexical features for terminals) */
+  features?: GrammaticalFeatures;
+}
+
+/**
+ * An intermediate node stands for a partially recognized rule: the first
+ * `dot` RHS symbols of `rule` spanning [start, end).
+ */
+export interface IntermediateNode {
+  kind: 'intermediate';
+  rule: GrammarRule;
+  dot: number;
+  start: number;
+  end: number;
+  packed: PackedNode[];
+}
+
+/**
+ * A packed node is one way of deriving its parent: the RHS prefix up to the
+ * last symbol (`left`) followed by that symbol (`right`), split at `split`.
+ * An empty rule (A → ε) is derived by a packed node with neither part.
+ */
+export interface PackedNode {
+  rule: GrammarRule;
+  split: number;
+  /** Derivation of the RHS prefix; null when `right` is the first RHS symbol */
+  left: IntermediateNode | null;
+  /** Derivation of the last recognized RHS symbol; null for an empty rule */
+  right: SymbolNode | null;
+  /**
+   * Features of the parent derived this way, when they differ from the
+   * parent's own (only at a root merged from readings with different features)
+   */
+  features?: GrammaticalFeatures;
+}
+
+export type ForestNode = SymbolNode | IntermediateNode;
+
+/**
+ * A shared packed parse forest (SPPF).
+ * Represents every parse of the input in space polynomial in its length,
+ * even when the number of trees is exponential. Trees are only built on demand.
+ *
+ * Unit-rule and empty-rule cycles (S → NP, NP → S) let a symbol derive
+ * itself over the same words, which would make the trees infinite. The
+ * forest only holds the derivations in which no symbol node dominates
+ * itself, so every count, probability and tree below is over that finite set.
+ *
+ * The parsers keep one node per feature bundle, so a tree whose words have
+ * several readings that fit together would be derived once per reading.
+ * The forest merges those derivations, so each tree is derived exactly once.
+ */
+export class ParseForest {
+  readonly root: SymbolNode | null;
+  private insideCache?: Map<ForestNode, number>;
+  private unfolded = new Map<ForestNode, ForestNode | null>();
+  private readings = new ReadingMerger();
+
+  constructor(
+    readonly input: string[],
+    root: SymbolNode | null
+  ) {
+    const unfolded = root && unfoldCycles(root);
+    this.root = unfolded && this.readings.merge(unfolded);
+  }
+
+  /**
+   * Whether the input has no parse at all.
+   */
+  get isEmpty(): boolean {
+    return this.root === null || this.root.packed.length === 0;
+  }
+
+  /**
+   * Count the distinct symbol, intermediate and packed nodes in the forest.
+   */
+  get size(): { symbols: number; intermediates: number; packed: number } {
+    const seen = new Set<ForestNode>();
+    let symbols = 0;
+    let intermediates = 0;
+    let packed = 0;
+
+    const visit = (node: ForestNode): void => {
+      if (seen.has(node)) return;
+      seen.add(node);
+      if (node.kind === 'symbol') symbols++;
+      else intermediates++;
+
+      for (const p of node.packed) {
+        packed++;
+        if (p.left) visit(p.left);
+        if (p.right) visit(p.right);
+      }
+    };
+
+    if (this.root) visit(this.root);
+    return { symbols, intermediates, packed };
+  }
+
+  /**
+   * Count the distinct parse trees in the forest without enumerating them.
+   * Each packed node contributes the product of its children's counts.
+   */
+  count(): bigint {
+    if (!this.root) return 0n;
+
+    const counts = new Map<ForestNode, bigint>();
+
+    const countNode = (node: ForestNode): bigint => {
+      if (node.kind === 'symbol' && node.packed.length === 0) return 1n;
+
+      const cached = counts.get(node);
+      if (cached !== undefined) return cached;
+
+      let total = 0n;
+      for (const packed of node.packed) {
+        const prefixCount = packed.left ? countNode(packed.left) : 1n;
+        total += prefixCount * (packed.right ? countNode(packed.right) : 1n);
+      }
+
+      counts.set(node, total);
+      return total;
+    };
+
+    return countNode(this.root);
+  }
+
+  /**
+   * Inside probability of a node: the total probability of every derivation
+   * below it. For the root this is the probability of the sentence.
+   * Every chart item's forest node can be passed here.
+   */
+  inside(node: ForestNode | null = this.root): number {
+    if (node && node !== this.root) {
+      if (!this.unfolded.has(node)) {
+        const unfolded = unfoldCycles(node);
+        this.unfolded.set(node, unfolded && this.readings.merge(unfolded));
+      }
+      node = this.unfolded.get(node)!;
+    }
+    if (!node) return 0;
+    this.insideCache ??= new Map();
+    const cache = this.insideCache;
+
+    const insideOf = (n: ForestNode): number => {
+      if (n.kind === 'symbol' && n.packed.length === 0) return 1;
+
+      const cached = cache.get(n);
+      if (cached !== undefined) return cached;
+
+      let total = 0;
+      for (const packed of n.packed) {
+        const prefix = packed.left ? insideOf(packed.left) : 1;
+        total += packedWeight(n, packed) * prefix * (packed.right ? insideOf(packed.right) : 1);
+      }
+
+      cache.set(n, total);
+      return total;
+    };
+
+    return insideOf(node);
+  }
+
+  /**
+   * Find the most probable tree (Viterbi) without enumerating the others.
+   * A tree's probability is the product of the probabilities of its rules.
+   */
+  bestTree(): ParseTree | null {
+    if (!this.root) return null;
+
+    const best = new Map<ForestNode, { probability: number; packed: PackedNode | null }>();
+
+    const bestOf = (node: ForestNode): number => {
+      if (node.kind === 'symbol' && node.packed.length === 0) return 1;
+
+      const cached = best.get(node);
+      if (cached) return cached.probability;
+
+      let choice: { probability: number; packed: PackedNode | null } = { probability: 0, packed: null };
+      for (const packed of node.packed) {
+        const prefix = packed.left ? bestOf(packed.left) : 1;
+        const probability = packedWeight(node, packed) * prefix * (packed.right ? bestOf(packed.right) : 1);
+        if (choice.packed === null || probability > choice.probability) {
+          choice = { probability, packed };
+        }
+      }
+
+      best.set(node, choice);
+      return choice.probability;
+    };
+
+    const childrenOf = (packed: PackedNode): ParseNode[] => {
+      const prefix = packed.left ? childrenOf(best.get(packed.left)!.packed!) : [];
+      return packed.right ? [...prefix, nodeOf(packed.right)] : prefix;
+    };
+
+    const nodeOf = (node: SymbolNode): ParseNode => {
+      const choice = best.get(node);
+      return toParseNode(node, choice?.packed ? childrenOf(choice.packed) : [], choice?.packed);
+    };
+
+    const probability = bestOf(this.root);
+    if (!best.get(this.root)?.packed) return null;
+
+    return { root: nodeOf(this.root), sentence: this.input, probability };
+  }
+
+  /**
+   * Lazily enumerate the parse trees from most to least probable,
+   * using lazy k-best extraction (Huang & Chiang, 2005).
+   */
+  *rankedTrees(): Generator<ParseTree> {
+    const root = this.root;
+    if (!root) return;
+
+    const search = new KBestSearch();
+    for (let k = 0; ; k++) {
+      const derivation = search.kth(root, k);
+      if (!derivation) return;
+      yield { root: search.build(root, derivation), sentence: this.input, probability: derivation.probability };
+    }
+  }
+
+  /**
+   * Lazily enumerate the parse trees in the forest, in no particular order.
+   */
+  *trees(): Generator<ParseTree> {
+    const root = this.root;
+    if (!root) return;
+
+    for (const [node, probability] of expandSymbol(root)) {
+      yield { root: node, sentence: this.input, probability };
+    }
+  }
+}
+
+/**
+ * Join the start symbol nodes spanning the whole input into one root.
+ * Derivations whose root features differ end up in separate nodes, so they
+ * are packed together, each keeping the features it was built with.
+ */
+export function mergeRoots(roots: SymbolNode[]): SymbolNode | null {
+  if (roots.length <= 1) return roots[0] ?? null;
+  const { symbol, start, end } = roots[0]!;
+  const packed = roots.flatMap(root => root.packed.map(p => (root.features ? { ...p, features: root.features } : p)));
+  return { kind: 'symbol', symbol, start, end, packed };
+}
+
+/**
+ * Build the parse node for a symbol node with the given children.
+ */
+function toParseNode(node: SymbolNode, children: ParseNode[], packed?: PackedNode | null): ParseNode {
+  const parseNode: ParseNode = { symbol: node.symbol, children, span: [node.start, node.end] };
+  if (node.word !== undefined) parseNode.word = node.word;
+  const features = packed?.features ?? node.features;
+  if (features) parseNode.features = features;
+  return parseNode;
+}
+
+/**
+ * Probability contributed by a packed node: its rule's probability when it
+ * completes a symbol, nothing extra for a partial rule.
+ */
+function packedWeight(parent: ForestNode, packed: PackedNode): number {
+  return parent.kind === 'symbol' ? packed.rule.probability ?? 1 : 1;
+}
+
+/**
+ * Enumerate the subtrees rooted at a symbol node with their probabilities.
+ */
+function* expandSymbol(node: SymbolNode): Generator<[ParseNode, number]> {
+  if (node.packed.length === 0) {
+    yield [toParseNode(node, []), 1];
+    return;
+  }
+
+  for (const packed of node.packed) {
+    const weight = packedWeight(node, packed);
+    for (const [children, probability] of expandPacked(packed)) {
+      yield [toParseNode(node, children, packed), weight * probability];
+    }
+  }
+}
+
+/**
+ * Enumerate the child sequences described by a packed node.
+ */
+function* expandPacked(packed: PackedNode): Generator<[ParseNode[], number]> {
+  const prefixes: Iterable<[ParseNode[], number]> = packed.left
+    ? expandIntermediate(packed.left)
+    : [[[], 1]];
+  for (const [prefix, prefixProbability] of prefixes) {
+    if (!packed.right) {
+      yield [prefix, prefixProbability];
+      continue;
+    }
+    for (const [last, probability] of expandSymbol(packed.right)) {
+      yield [[...prefix, last], prefixProbability * probability];
+    }
+  }
+}
+
+function* expandIntermediate(node: IntermediateNode): Generator<[ParseNode[], number]> {
+  for (const packed of node.packed) {
+    yield* expandPacked(packed);
+  }
+}
+
+/**
+ * Copy the forest below a node so that no symbol node dominates itself.
+ * A symbol node on a cycle is copied once for each set of its cycle-mates
+ * above it, without the derivations that would revisit one of them.
+ * Returns the node itself when nothing below it is cyclic, and null if
+ * every derivation of it is cyclic.
+ */
+function unfoldCycles<T extends ForestNode>(node: T): T | null;
+function unfoldCycles(node: ForestNode): ForestNode | null {
+  const { component, reachesCycle } = findCycles(node);
+  if (component.size === 0) return node;
+
+  const ids = new Map<ForestNode, number>();
+  const idOf = (n: ForestNode): number => {
+    if (!ids.has(n)) ids.set(n, ids.size);
+    return ids.get(n)!;
+  };
+  const copies = new Map<string, ForestNode | null>();
+
+  // `path` holds the symbol nodes above n that share its cycle
+  const copy = (n: ForestNode, path: SymbolNode[]): ForestNode | null => {
+    if (!reachesCycle.has(n)) return n;
+    if (n.kind === 'symbol' && path.includes(n)) return null;
+
+    const key = `${idOf(n)}|${path.map(idOf).sort((a, b) => a - b).join(',')}`;
+    if (copies.has(key)) return copies.get(key)!;
+
+    const inner = n.kind === 'symbol' && component.has(n) ? [...path, n] : path;
+    const pathFor = (child: ForestNode): SymbolNode[] =>
+      component.has(child) && component.get(child) === component.get(n) ? inner : [];
+
+    const packed: PackedNode[] = [];
+    let changed = false;
+    for (const p of n.packed) {
+      const left = p.left && (copy(p.left, pathFor(p.left)) as IntermediateNode | null);
+      const right = p.right && (copy(p.right, pathFor(p.right)) as SymbolNode | null);
+      if ((p.left && !left) || (p.right && !right)) {
+        changed = true;
+      } else if (left !== p.left || right !== p.right) {
+        changed = true;
+        packed.push({ ...p, left, right });
+      } else {
+        packed.push(p);
+      }
+    }
+
+    const result = !changed ? n : packed.length > 0 ? { ...n, packed } : null;
+    copies.set(key, result);
+    return result;
+  };
+
+  return copy(node, []);
+}
+
+/**
+ * Rebuilds forests so that no tree is derived twice.
+ *
+ * A word with several readings of one part of speech has a terminal node
+ * per reading, and every phrase a node per feature bundle, so one tree can
+ * be derived from several of a span's nodes (its variants). The variants of
+ * a symbol over a span are replaced by one node per set of variants that
+ * derive the same trees, holding exactly those trees, with the features the
+ * set shares. Derivations merge only when they have the same rule and
+ * split, and merged children are joined only where some variant joined
+ * the originals, so a combination of readings that failed to unify stays out.
+ * Finally each child is narrowed to the variants its parent's readings
+ * used, so a node's features are those of the readings of the whole tree.
+ */
+class ReadingMerger {
+  private ids = new Map<ForestNode, number>();
+  private ruleIds = new Map<GrammarRule, number>();
+  /** Merged nodes for a set of variants, by the subset of them (as a bitmask) deriving their trees */
+  private merged = new Map<string, Map<bigint, ForestNode>>();
+  /** The features of the variants a merged symbol node was built from */
+  private variantFeatures = new Map<ForestNode, Array<GrammaticalFeatures | undefined>>();
+  /** The derivations (by variant, and by index among the children's variants) behind a merged packed node */
+  private sources = new Map<PackedNode, Array<{ owner: number; left: number; right: number }>>();
+  private narrowed = new Map<string, ForestNode>();
+
+  /**
+   * Rebuild the forest below a node, or return null if it derives nothing.
+   */
+  merge<T extends ForestNode>(node: T): T | null;
+  merge(node: ForestNode): ForestNode | null {
+    if (node.kind === 'intermediate') {
+      const merged = [...this.mergeVariants([node]).values()][0];
+      return merged ? this.narrow(merged, 1n) : null;
+    }
+
+    // A root merged from readings with different features holds one variant per reading
+    const readings = new Map<string, SymbolNode>();
+    for (const packed of node.packed) {
+      const features = packed.features ?? node.features;
+      const reading = readings.get(featuresKey(features)) ?? { ...node, packed: [], features };
+      reading.packed.push(packed.features ? { rule: packed.rule, split: packed.split, left: packed.left, right: packed.right } : packed);
+      readings.set(featuresKey(features), reading);
+    }
+    const variants = node.packed.length > 0 ? [...readings.values()] : [node];
+    const merged = [...this.mergeVariants(variants)].map(([subset, root]) => this.narrow(root, subset));
+    return mergeRoots(merged as SymbolNode[]);
+  }
+
+  private mergeVariants(variants: ForestNode[]): Map<bigint, ForestNode> {
+    const key = variants.map(variant => this.idOf(variant)).join(',');
+    const cached = this.merged.get(key);
+    if (cached) return cached;
+
+    const result = new Map<bigint, ForestNode>();
+    this.merged.set(key, result);
+    const first = variants[0]!;
+    if (first.kind === 'symbol' && first.packed.length === 0) {
+      // Every reading of a word gives the same leaf
+      const leaf = { ...first, features: generalize(variants.map(featuresOf)) };
+      this.variantFeatures.set(leaf, variants.map(featuresOf));
+      result.set((1n << BigInt(variants.length)) - 1n, leaf);
+      return result;
+    }
+
+    const packedBySubset = new Map<bigint, PackedNode[]>();
+    for (const members of this.groupDerivations(variants)) {
+      const { rule, split } = members[0]!.packed;
+      const lefts = this.variantSet(members.map(m => m.packed.left));
+      const rights = this.variantSet(members.map(m => m.packed.right));
+      const leftChoices = lefts.length > 0 ? [...this.mergeVariants(lefts)] : [[0n, null] as const];
+      const rightChoices = rights.length > 0 ? [...this.mergeVariants(rights)] : [[0n, null] as const];
+
+      for (const [leftSubset, left] of leftChoices) {
+        for (const [rightSubset, right] of rightChoices) {
+          // The variants with a derivation joining these trees
+          let subset = 0n;
+          const sources: Array<{ owner: number; left: number; right: number }> = [];
+          for (const { owner, packed } of members) {
+            const leftIndex = packed.left ? lefts.indexOf(packed.left) : -1;
+            const rightIndex = packed.right ? rights.indexOf(packed.right) : -1;
+            if (packed.left && !inSubset(leftSubset, leftIndex)) continue;
+            if (packed.right && !inSubset(rightSubset, rightIndex)) continue;
+            subset |= 1n << BigInt(owner);
+            sources.push({ owner, left: leftIndex, right: rightIndex });
+          }
+          if (subset === 0n) continue;
+
+          const merged: PackedNode = { rule, split, left: left as IntermediateNode | null, right: right as SymbolNode | null };
+          this.sources.set(merged, sources);
+          const packed = packedBySubset.get(subset) ?? [];
+          packed.push(merged);
+          packedBySubset.set(subset, packed);
+        }
+      }
+    }
+
+    for (const [subset, packed] of packedBySubset) {
+      if (first.kind === 'intermediate') {
+        result.set(subset, { ...first, packed });
+        continue;
+      }
+      const features = generalize(variants.filter((_, i) => inSubset(subset, i)).map(featuresOf));
+      const node: SymbolNode = { kind: 'symbol', symbol: first.symbol, start: first.start, end: first.end, packed, features };
+      this.variantFeatures.set(node, variants.map(featuresOf));
+      result.set(subset, node);
+    }
+    return result;
+  }
+
+  /**
+   * Narrow a merged node to some of the variants deriving it, and its
+   * children to the variants those used, recomputing the shared features.
+   */
+  private narrow(node: ForestNode, subset: bigint): ForestNode {
+    const key = `${this.idOf(node)}|${subset}`;
+    const cached = this.narrowed.get(key);
+    if (cached) return cached;
+
+    let changed = false;
+    const packed = node.packed.map(p => {
+      const used = this.sources.get(p)!.filter(source => inSubset(subset, source.owner));
+      const left = p.left && (this.narrow(p.left, maskOf(used.map(source => source.left))) as IntermediateNode);
+      const right = p.right && (this.narrow(p.right, maskOf(used.map(source => source.right))) as SymbolNode);
+      if (left === p.left && right === p.right) return p;
+      changed = true;
+      return { ...p, left, right };
+    });
+
+    if (node.kind === 'intermediate') {
+      const result = changed ? { ...node, packed } : node;
+      this.narrowed.set(key, result);
+      return result;
+    }
+
+    const features = generalize(this.variantFeatures.get(node)!.filter((_, i) => inSubset(subset, i)));
+    const result = changed || featuresKey(features) !== featuresKey(node.features) ? { ...node, packed, features } : node;
+    this.narrowed.set(key, result);
+    return result;
+  }
+
+  /** The variants' packed nodes grouped by rule and split, each with the index of its variant */
+  private groupDerivations(variants: ForestNode[]): Array<Array<{ owner: number; packed: PackedNode }>> {
+    const groups = new Map<string, Array<{ owner: number; packed: PackedNode }>>();
+    variants.forEach((variant, owner) => {
+      for (const packed of variant.packed) {
+        const key = `${this.ruleId(packed.rule)}|${packed.split}`;
+        const members = groups.get(key) ?? [];
+        members.push({ owner, packed });
+        groups.set(key, members);
+      }
+    });
+    return [...groups.values()];
+  }
+
+  /** The distinct nodes among some packed nodes' children, in a fixed order */
+  private variantSet<T extends ForestNode>(nodes: Array<T | null>): T[] {
+    const unique = [...new Set(nodes.filter((node): node is T => node !== null))];
+    return unique.sort((a, b) => this.idOf(a) - this.idOf(b));
+  }
+
+  private idOf(node: ForestNode): number {
+    if (!this.ids.has(node)) this.ids.set(node, this.ids.size);
+    return this.ids.get(node)!;
+  }
+
+  private ruleId(rule: GrammarRule): number {
+    if (!this.ruleIds.has(rule)) this.ruleIds.set(rule, this.ruleIds.size);
+    return this.ruleIds.get(rule)!;
+  }
+}
+
+function inSubset(subset: bigint, index: number): boolean {
+  return (subset & (1n << BigInt(index))) !== 0n;
+}
+
+function maskOf(indices: number[]): bigint {
+  return indices.reduce((mask, index) => mask | (1n << BigInt(index)), 0n);
+}
+
+function featuresOf(node: ForestNode): GrammaticalFeatures | undefined {
+  return node.kind === 'symbol' ? node.features : undefined;
+}
+
+/**
+ * Find the forest nodes below a node that lie on a cycle, numbered by
+ * strongly connected component (Tarjan), and every node that can reach one.
+ */
+function findCycles(root: ForestNode): { component: Map<ForestNode, number>; reachesCycle: Set<ForestNode> } {
+  const index = new Map<ForestNode, number>();
+  const low = new Map<ForestNode, number>();
+  const stack: ForestNode[] = [];
+  const onStack = new Set<ForestNode>();
+  const component = new Map<ForestNode, number>();
+  const reachesCycle = new Set<ForestNode>();
+  let components = 0;
+
+  const visit = (node: ForestNode): void => {
+    index.set(node, index.size);
+    low.set(node, index.get(node)!);
+    stack.push(node);
+    onStack.add(node);
+
+    const children = node.packed.flatMap(tailsOf);
+    for (const child of children) {
+      if (!index.has(child)) {
+        visit(child);
+        low.set(node, Math.min(low.get(node)!, low.get(child)!));
+      } else if (onStack.has(child)) {
+        low.set(node, Math.min(low.get(node)!, index.get(child)!));
+      }
+    }
+
+    if (low.get(node) === index.get(node)) {
+      const members: ForestNode[] = [];
+      let member: ForestNode;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        members.push(member);
+      } while (member !== node);
+
+      if (members.length > 1 || children.includes(node)) {
+        for (const m of members) {
+          component.set(m, components);
+          reachesCycle.add(m);
+        }
+        components++;
+      }
+    }
+    // Children are finished by now, so their reachesCycle is final
+    if (children.some(child => reachesCycle.has(child))) reachesCycle.add(node);
+  };
+
+  visit(root);
+  return { component, reachesCycle };
+}
+
+/**
+ * One derivation of a node: a packed node plus the rank of the derivation
+ * chosen for each of its children ([left, right], or [right] alone).
+ */
+interface Derivation {
+  packed: PackedNode | null;
+  ranks: number[];
+  probability: number;
+  /** Whether this derivation's successors have been queued */
+  expanded: boolean;
+}
+
+const LEAF: Derivation = { packed: null, ranks: [], probability: 1, expanded: true };
+
+/**
+ * State for lazy k-best extraction: per node, the derivations found so far
+ * in order and a pool of candidates for the next one.
+ */
+class KBestSearch {
+  private found = new Map<ForestNode, Derivation[]>();
+  private candidates = new Map<ForestNode, Derivation[]>();
+  private queued = new Map<ForestNode, Set<string>>();
+
+  /**
+   * Get the k-th best derivation (0-based) of a node, or null if it has fewer.
+   */
+  kth(node: ForestNode, k: number): Derivation | null {
+    if (node.kind === 'symbol' && node.packed.length === 0) {
+      return k === 0 ? LEAF : null;
+    }
+
+    let found = this.found.get(node);
+    if (!found) {
+      found = [];
+      this.found.set(node, found);
+      this.candidates.set(node, []);
+      this.queued.set(node, new Set());
+      node.packed.forEach((packed, i) => {
+        this.enqueue(node, i, packed, tailsOf(packed).map(() => 0));
+      });
+    }
+
+    const candidates = this.candidates.get(node)!;
+    while (found.length <= k) {
+      const last = found[found.length - 1];
+      if (last && !last.expanded) {
+        last.expanded = true;
+        const index = node.packed.indexOf(last.packed!);
+        last.ranks.forEach((_, i) => {
+          const ranks = [...last.ranks];
+          ranks[i]!++;
+          this.enqueue(node, index, last.packed!, ranks);
+        });
+      }
+      if (candidates.length === 0) break;
+
+      let bestIndex = 0;
+      for (let i = 1; i < candidates.length; i++) {
+        if (candidates[i]!.probability > candidates[bestIndex]!.probability) bestIndex = i;
+      }
+      found.push(candidates.splice(bestIndex, 1)[0]!);
+    }
+
+    return found[k] ?? null;
+  }
+
+  /**
+   * Build the parse node for a symbol node's derivation.
+   */
+  build(node: SymbolNode, derivation: Derivation): ParseNode {
+    return toParseNode(node, derivation.packed ? this.buildChildren(derivation) : [], derivation.packed);
+  }
+
+  private buildChildren(derivation: Derivation): ParseNode[] {
+    const packed = derivation.packed!;
+    const ranks = derivation.ranks;
+    const prefix = packed.left ? this.buildChildren(this.kth(packed.left, ranks[0]!)!) : [];
+    if (!packed.right) return prefix;
+    const rightRank = ranks[ranks.length - 1]!;
+    return [...prefix, this.build(packed.right, this.kth(packed.right, rightRank)!)];
+  }
+
+  private enqueue(node: ForestNode, index: number, packed: PackedNode, ranks: number[]): void {
+    const key = `${index}:${ranks.join(',')}`;
+    const queued = this.queued.get(node)!;
+    if (queued.has(key)) return;
+    queued.add(key);
+
+    const tails = tailsOf(packed);
+    let probability = packedWeight(node, packed);
+    for (let i = 0; i < tails.length; i++) {
+      const derivation = this.kth(tails[i]!, ranks[i]!);
+      if (!derivation) return;
+      probability *= derivation.probability;
+    }
+
+    this.candidates.get(node)!.push({ packed, ranks, probability, expanded: false });
+  }
+}
+
+/** The children of a packed node that have derivations of their own: [left, right], [right] or none */
+function tailsOf(packed: PackedNode): ForestNode[] {
+  return [packed.left, packed.right].filter((node): node is ForestNode => node !== null);
+}
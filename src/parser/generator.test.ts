@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { createRandom, enumerateSentences, generateRandom, sampleSentences } from './generator.js';
+import { EarleyParser } from './earley.js';
+import { createEnglishGrammar } from './grammar.js';
+import { createBuffaloLexicon, createTestLexicon } from './lexicon.js';
+import type { GeneratedSentence } from './generator.js';
+import type { ParseNode } from '../types.js';
+
+/**
+ * Whether a parsed tree is the generated one. The generator picks one
+ * reading per word, while the parser keeps only the features shared by
+ * every reading that fits, so those must be among the generated ones.
+ */
+function matches(generated: ParseNode, parsed: ParseNode): boolean {
+  const featuresFit = Object.entries(parsed.features ?? {})
+    .every(([name, value]) => generated.features?.[name as keyof typeof generated.features] === value);
+  return generated.symbol === parsed.symbol
+    && generated.word === parsed.word
+    && generated.span.join() === parsed.span.join()
+    && featuresFit
+    && generated.children.length === parsed.children.length
+    && generated.children.every((child, i) => matches(child, parsed.children[i]!));
+}
+
+describe('enumerateSentences', () => {
+  const grammar = createEnglishGrammar();
+  const buffalo = createBuffaloLexicon();
+
+  it('should find every parse of n buffalos across the tag sequences', () => {
+    const parser = new EarleyParser(grammar, buffalo);
+
+    for (let n = 1; n <= 5; n++) {
+      const sentences = [...enumerateSentences(grammar, buffalo, n)];
+      const total = sentences.reduce((sum, s) => sum + s.parseCount, 0n);
+
+      // Every string of n buffalos is grammatical...
+      expect(sentences.length).toBeGreaterThan(0);
+      // ...and each parse gives its words exactly one tag sequence
+      expect(total).toBe(parser.countParses(Array<string>(n).fill('buffalo')));
+    }
+  });
+
+  it('should list each tag sequence once with matching words', () => {
+    const sentences = [...enumerateSentences(grammar, buffalo, 3)];
+    const tagSequences = sentences.map(s => s.tags.join(' '));
+
+    expect(new Set(tagSequences).size).toBe(sentences.length);
+    expect(tagSequences).toContain('PN N V');
+    for (const { tags, words } of sentences) {
+      expect(words).toEqual(tags.map(tag => (tag === 'PN' ? 'Buffalo' : 'buffalo')));
+    }
+  });
+
+  it('should respect agreement when choosing words', () => {
+    const sentences = [...enumerateSentences(grammar, createTestLexicon(), 2)]
+      .map(s => s.words.join(' '));
+
+    expect(sentences).toContain('dogs run');
+    expect(sentences).toContain('dog runs');
+    expect(sentences).not.toContain('dogs runs');
+  });
+
+  it('should produce sentences lazily', () => {
+    const first = enumerateSentences(grammar, buffalo, 12).next();
+
+    expect(first.done).toBe(false);
+    expect(first.value!.words).toHaveLength(12);
+  });
+
+  it('should find nothing for length zero', () => {
+    expect([...enumerateSentences(grammar, buffalo, 0)]).toEqual([]);
+  });
+});
+
+describe('sampleSentences', () => {
+  const grammar = createEnglishGrammar();
+  const buffalo = createBuffaloLexicon();
+
+  it('should be reproducible with a seeded random source', () => {
+    const first = sampleSentences(grammar, buffalo, 4, 3, createRandom(42));
+    const second = sampleSentences(grammar, buffalo, 4, 3, createRandom(42));
+
+    expect(first).toHaveLength(3);
+    expect(second).toEqual(first);
+  });
+
+  it('should only sample grammatical sentences', () => {
+    const all = [...enumerateSentences(grammar, buffalo, 4)].map(s => s.tags.join(' '));
+    const sample = sampleSentences(grammar, buffalo, 4, 5, createRandom(7));
+
+    for (const sentence of sample) {
+      expect(all).toContain(sentence.tags.join(' '));
+    }
+  });
+
+  it('should return everything when asking for more than exist', () => {
+    const all = [...enumerateSentences(grammar, buffalo, 2)];
+    expect(sampleSentences(grammar, buffalo, 2, 100)).toHaveLength(all.length);
+  });
+
+  it('should only look at the first maxCandidates sentences', () => {
+    const key = (s: GeneratedSentence): string => `${s.words.join(' ')}/${s.tags.join(' ')}`;
+    const first = [...enumerateSentences(grammar, buffalo, 4)].slice(0, 6).map(key);
+
+    expect(sampleSentences(grammar, buffalo, 4, 100, createRandom(3), 6).map(key)).toEqual(first);
+    for (const sentence of sampleSentences(grammar, buffalo, 4, 2, createRandom(3), 6)) {
+      expect(first).toContain(key(sentence));
+    }
+  });
+});
+
+describe('createRandom', () => {
+  it('should generate numbers in [0, 1) repeatably', () => {
+    const a = createRandom(1);
+    const b = createRandom(1);
+    const values = Array.from({ length: 100 }, () => a());
+
+    expect(values.every(v => v >= 0 && v < 1)).toBe(true);
+    expect(Array.from({ length: 100 }, () => b())).toEqual(values);
+    expect(createRandom(2)()).not.toBe(values[0]);
+  });
+});
+
+describe('generateRandom', () => {
+  const grammar = createEnglishGrammar();
+  const buffalo = createBuffaloLexicon();
+
+  it('should generate a tree the parser also finds', () => {
+    const parser = new EarleyParser(grammar, createTestLexicon());
+    const random = createRandom(3);
+
+    for (let i = 0; i < 20; i++) {
+      const tree = generateRandom(grammar, createTestLexicon(), { random, maxDepth: 6 })!;
+      const found = [...parser.parseForest(tree.sentence).trees()].some(t => matches(tree.root, t.root));
+
+      expect(found, tree.sentence.join(' ')).toBe(true);
+    }
+  });
+
+  it('should score the tree as the product of its rule probabilities', () => {
+    const tree = generateRandom(grammar, buffalo, { random: createRandom(5), targetLength: 4 })!;
+    const parser = new EarleyParser(grammar, buffalo);
+    const match = [...parser.parseForest(tree.sentence).trees()].find(t => matches(tree.root, t.root))!;
+
+    expect(tree.probability).toBeCloseTo(match.probability!, 12);
+  });
+
+  it('should be reproducible with a seed', () => {
+    const first = generateRandom(grammar, buffalo, { random: createRandom(11) });
+    const second = generateRandom(grammar, buffalo, { random: createRandom(11) });
+
+    expect(second).toEqual(first);
+  });
+
+  it('should hit the target length', () => {
+    const random = createRandom(9);
+    for (const targetLength of [1, 3, 6]) {
+      const tree = generateRandom(grammar, buffalo, { random, targetLength })!;
+      expect(tree.sentence).toHaveLength(targetLength);
+      expect(tree.root.span).toEqual([0, targetLength]);
+    }
+  });
+
+  it('should keep words within the depth limit', () => {
+    const random = createRandom(1);
+    const depthOf = (node: ParseNode): number =>
+      node.children.length === 0 ? 0 : 1 + Math.max(...node.children.map(depthOf));
+
+    for (let i = 0; i < 20; i++) {
+      const tree = generateRandom(grammar, buffalo, { random, maxDepth: 4 })!;
+      expect(depthOf(tree.root)).toBeLessThanOrEqual(4);
+    }
+  });
+
+  it('should give up when no tree fits the limits', () => {
+    expect(generateRandom(grammar, buffalo, { maxDepth: 1 })).toBeNull();
+    expect(generateRandom(grammar, buffalo, { targetLength: 30, maxDepth: 3, maxAttempts: 10 })).toBeNull();
+  });
+});
@@ -0,0 +1,272 @@
+import type { GrammarRule, GrammarSymbol, ParseNode, ParseTree, PartOfSpeech } from '../types.js';
+import type { Grammar } from './grammar.js';
+import { EarleyParser } from './earley.js';
+import { Lexicon } from './lexicon.js';
+import { NO_BINDINGS, bindChild, lhsFeatures } from './features.js';
+
+/**
+ * A grammatical sentence found by the generator.
+ */
+export interface GeneratedSentence {
+  /** Part of speech of each word */
+  tags: PartOfSpeech[];
+  words: string[];
+  /** Number of parses in which the words take exactly these tags */
+  parseCount: bigint;
+}
+
+/** A source of random numbers in [0, 1), like Math.random */
+export type RandomSource = () => number;
+
+/**
+ * Create a seeded random source (mulberry32), so samples are reproducible.
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Lazily enumerate every sentence of `length` words that has a parse:
+ * each part-of-speech sequence, each choice of words for it, and how many
+ * parses it has.
+ *
+ * Part-of-speech sequences are found first by parsing one placeholder word
+ * per tag, which merges all words with that tag, and then each word choice is
+ * counted exactly, so feature agreement is still respected.
+ *
+ * @example
+ * for (const s of enumerateSentences(createEnglishGrammar(), createBuffaloLexicon(), 3)) {
+ *   console.log(s.words.join(' '), s.tags.join(' '), s.parseCount);
+ * }
+ */
+export function* enumerateSentences(
+  grammar: Grammar,
+  lexicon: Lexicon,
+  length: number
+): Generator<GeneratedSentence> {
+  const wordsByTag = new Map<PartOfSpeech, string[]>();
+  for (const entry of lexicon.getAllEntries()) {
+    if (!grammar.isTerminal(entry.pos)) continue;
+    const words = wordsByTag.get(entry.pos) ?? [];
+    if (!words.includes(entry.word)) words.push(entry.word);
+    wordsByTag.set(entry.pos, words);
+  }
+
+  // One placeholder word per tag, carrying every reading of that tag
+  const tagLexicon = new Lexicon();
+  for (const entry of lexicon.getAllEntries()) {
+    tagLexicon.addWord(placeholder(entry.pos), entry.pos, entry.features);
+  }
+  const tags = [...wordsByTag.keys()];
+  const byPlaceholder = new Map(tags.map(tag => [placeholder(tag).toLowerCase(), tag]));
+
+  const tagParser = new EarleyParser(grammar, tagLexicon);
+  const parser = new EarleyParser(grammar, lexicon);
+
+  for (const sequence of tagParser.enumerateSentences(length, tags.map(placeholder))) {
+    const sequenceTags = sequence.map(word => byPlaceholder.get(word.toLowerCase())!);
+    const constraints = sequenceTags.map(tag => [tag]);
+
+    for (const words of product(sequenceTags.map(tag => wordsByTag.get(tag)!))) {
+      const parseCount = parser.countParses(words, constraints);
+      if (parseCount > 0n) {
+        yield { tags: sequenceTags, words, parseCount };
+      }
+    }
+  }
+}
+
+/** Sentences sampleSentences looks at when no maxCandidates is given */
+export const DEFAULT_MAX_CANDIDATES = 10_000;
+
+/**
+ * Pick `count` sentences of `length` words uniformly at random from all
+ * grammatical ones (reservoir sampling over enumerateSentences).
+ *
+ * Being uniform means seeing every sentence, so this costs a full
+ * enumeration, which grows exponentially with `length`. It stops after
+ * `maxCandidates` sentences and samples from those alone; generateRandom
+ * costs one tree per attempt, but follows the rule probabilities instead.
+ */
+export function sampleSentences(
+  grammar: Grammar,
+  lexicon: Lexicon,
+  length: number,
+  count: number,
+  random: RandomSource = Math.random,
+  maxCandidates = DEFAULT_MAX_CANDIDATES
+): GeneratedSentence[] {
+  const sample: GeneratedSentence[] = [];
+  let seen = 0;
+
+  for (const sentence of enumerateSentences(grammar, lexicon, length)) {
+    if (seen === maxCandidates) break;
+    seen++;
+    if (sample.length < count) {
+      sample.push(sentence);
+    } else {
+      const index = Math.floor(random() * seen);
+      if (index < count) sample[index] = sentence;
+    }
+  }
+
+  return sample;
+}
+
+/**
+ * Options for generateRandom.
+ */
+export interface RandomOptions {
+  /** Random source (default Math.random); use createRandom(seed) for repeatable trees */
+  random?: RandomSource;
+  /** Deepest level a word may sit at below the root (default 10) */
+  maxDepth?: number;
+  /** Only return sentences with exactly this many words */
+  targetLength?: number;
+  /** Derivations to try before giving up (default 1000) */
+  maxAttempts?: number;
+}
+
+/**
+ * Sample a random parse tree top-down from the start symbol, choosing each
+ * rule with its probability (relative to the other rules for the same
+ * symbol) and each word uniformly among the lexicon's words for its tag.
+ *
+ * Derivations that break feature agreement, or miss the target length, are
+ * thrown away and retried, so every tree returned is one the parser finds.
+ * Returns null if no tree was found within maxAttempts.
+ */
+export function generateRandom(grammar: Grammar, lexicon: Lexicon, options: RandomOptions = {}): ParseTree | null {
+  const { random = Math.random, maxDepth = 10, targetLength, maxAttempts = 1000 } = options;
+
+  const wordsByTag = new Map<GrammarSymbol, string[]>();
+  for (const entry of lexicon.getAllEntries()) {
+    const words = wordsByTag.get(entry.pos) ?? [];
+    if (!words.includes(entry.word)) words.push(entry.word);
+    wordsByTag.set(entry.pos, words);
+  }
+  const minDepth = minimumDepths(grammar, wordsByTag);
+  const maxLength = targetLength ?? Infinity;
+
+  /** Sample the subtree for a symbol starting at word `start`, or null to retry */
+  const sample = (symbol: GrammarSymbol, depth: number, start: number, sentence: string[]): [ParseNode, number] | null => {
+    if (grammar.isTerminal(symbol)) {
+      if (start >= maxLength) return null;
+      const words = wordsByTag.get(symbol) ?? [];
+      const word = words[Math.floor(random() * words.length)]!;
+      sentence.push(word);
+
+      const node: ParseNode = { symbol, children: [], span: [start, start + 1] };
+      node.word = word;
+      // One reading of a homograph, with its own features, as the parser scans them
+      const entries = lexicon.lookup(word).filter(e => e.pos === symbol);
+      const entry = entries.length > 1 ? entries[Math.floor(random() * entries.length)]! : entries[0]!;
+      if (entry.features) node.features = entry.features;
+      return [node, 1];
+    }
+
+    // Only rules that can still reach words within the depth limit
+    const rules = grammar.getRulesFor(symbol)
+      .filter(rule => rule.rhs.every(s => depth + 1 + minDepth.get(s)! <= maxDepth));
+    const rule = pickRule(rules, random);
+    if (!rule) return null;
+
+    const children: ParseNode[] = [];
+    let probability = rule.probability ?? 1;
+    let bindings = NO_BINDINGS;
+    let end = start;
+    for (const [i, child] of rule.rhs.entries()) {
+      const result = sample(child, depth + 1, end, sentence);
+      if (!result) return null;
+
+      const [childNode, childProbability] = result;
+      const next = bindChild(rule, bindings, i + 1, childNode.features);
+      if (!next) return null;
+
+      bindings = next;
+      children.push(childNode);
+      probability *= childProbability;
+      end = childNode.span[1];
+    }
+
+    const node: ParseNode = { symbol, children, span: [start, end] };
+    const features = lhsFeatures(rule, bindings);
+    if (features) node.features = features;
+    return [node, probability];
+  };
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const sentence: string[] = [];
+    const result = sample(grammar.startSymbol, 0, 0, sentence);
+    if (!result) continue;
+    if (targetLength !== undefined && sentence.length !== targetLength) continue;
+
+    const [root, probability] = result;
+    return { root, sentence, probability };
+  }
+  return null;
+}
+
+/** Choose a rule with probability proportional to its weight */
+function pickRule(rules: GrammarRule[], random: RandomSource): GrammarRule | undefined {
+  const total = rules.reduce((sum, rule) => sum + (rule.probability ?? 1), 0);
+  let threshold = random() * total;
+  for (const rule of rules) {
+    threshold -= rule.probability ?? 1;
+    if (threshold < 0) return rule;
+  }
+  return rules[rules.length - 1];
+}
+
+/**
+ * Fewest levels below each symbol needed to reach words: 0 for a tag with
+ * words, Infinity for a symbol that can never produce any.
+ */
+function minimumDepths(grammar: Grammar, wordsByTag: Map<GrammarSymbol, string[]>): Map<GrammarSymbol, number> {
+  const depths = new Map<GrammarSymbol, number>();
+  const rules = grammar.getAllRules();
+  for (const rule of rules) {
+    depths.set(rule.lhs, Infinity);
+    for (const symbol of rule.rhs) {
+      if (grammar.isTerminal(symbol)) depths.set(symbol, wordsByTag.has(symbol) ? 0 : Infinity);
+    }
+  }
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const rule of rules) {
+      const depth = 1 + Math.max(0, ...rule.rhs.map(symbol => depths.get(symbol)!));
+      if (depth < depths.get(rule.lhs)!) {
+        depths.set(rule.lhs, depth);
+        changed = true;
+      }
+    }
+  }
+  return depths;
+}
+
+function placeholder(tag: PartOfSpeech): string {
+  return `<${tag}>`;
+}
+
+/** Every combination taking one item from each list, in order */
+function* product<T>(lists: T[][]): Generator<T[]> {
+  if (lists.length === 0) {
+    yield [];
+    return;
+  }
+  const [first, ...rest] = lists;
+  for (const item of first!) {
+    for (const tail of product(rest)) {
+      yield [item, ...tail];
+    }
+  }
+}
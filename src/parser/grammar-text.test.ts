@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { Grammar, createEnglishGrammar } from './grammar.js';
+import { FormatError } from './errors.js';
+
+describe('Grammar text format', () => {
+  it('should read rules with probabilities and feature equations', () => {
+    const g = Grammar.fromText('S -> NP VP [0.9] {number,person: 1=2}\nNP -> N\nVP -> V');
+    const [rule] = g.getRulesFor('S');
+
+    expect(rule!.rhs).toEqual(['NP', 'VP']);
+    expect(rule!.probability).toBe(0.9);
+    expect(rule!.features).toEqual([{ features: ['number', 'person'], positions: [1, 2] }]);
+  });
+
+  it('should default the probability to 1', () => {
+    const g = Grammar.fromText('NP -> DET N');
+    expect(g.getRulesFor('NP')[0]!.probability).toBe(1);
+  });
+
+  it('should skip comments and blank lines', () => {
+    const g = Grammar.fromText([
+      '# Noun phrases',
+      '',
+      'NP -> N   # bare noun',
+    ].join('\n'));
+
+    expect(g.getAllRules()).toHaveLength(1);
+  });
+
+  it('should expand alternatives into separate rules', () => {
+    const g = Grammar.fromText('NP -> N [0.6] | DET N [0.9] {number: 0=2}');
+    const rules = g.getRulesFor('NP');
+
+    expect(rules.map(r => r.rhs)).toEqual([['N'], ['DET', 'N']]);
+    expect(rules.map(r => r.probability)).toEqual([0.6, 0.9]);
+    expect(rules[1]!.features).toEqual([{ features: ['number'], positions: [0, 2] }]);
+  });
+
+  it('should accept a unicode arrow', () => {
+    expect(Grammar.fromText('S → V').getRulesFor('S')).toHaveLength(1);
+  });
+
+  it('should round-trip the English grammar', () => {
+    const original = createEnglishGrammar();
+    const copy = Grammar.fromText(original.toText());
+
+    expect(copy.getAllRules()).toEqual(original.getAllRules());
+    expect(copy.toText()).toBe(original.toText());
+  });
+
+  it('should report unknown symbols with line numbers', () => {
+    const text = 'S -> NP VP\nNP -> DET NOUN\nVP -> V XP';
+
+    expect(() => Grammar.fromText(text)).toThrow(FormatError);
+    try {
+      Grammar.fromText(text);
+    } catch (e) {
+      expect((e as FormatError).issues).toEqual([
+        { line: 2, message: "unknown symbol 'NOUN' in rule for NP" },
+        { line: 3, message: "unknown symbol 'XP' in rule for VP" },
+      ]);
+      expect((e as Error).message).toContain('line 2');
+    }
+  });
+
+  it('should reject malformed rules', () => {
+    const bad = [
+      'S NP VP',
+      'N -> DET',
+      'S -> NP VP [1.5]',
+      'S -> NP VP {gender: 1=2}',
+      'S -> NP VP {number: 1=3}',
+      'S -> NP |',
+      '%start NP\nS -> N',
+      '%terminals D\nS -> D N',
+      'NP -> DET ε N',
+    ];
+    for (const line of bad) {
+      expect(() => Grammar.fromText(line), line).toThrow(FormatError);
+    }
+  });
+
+  it('should read and write empty rules as ε', () => {
+    const g = Grammar.fromText('NP -> DET ADJP N\nADJP -> ε [0.5] | ADJ ADJP [0.5]');
+
+    expect(g.getRulesFor('ADJP').map(r => r.rhs)).toEqual([[], ['ADJ', 'ADJP']]);
+    expect(g.toText()).toContain('ADJP -> ε [0.5]');
+    expect(Grammar.fromText(g.toText()).getAllRules()).toEqual(g.getAllRules());
+  });
+
+  it('should read custom categories and directives', () => {
+    const g = Grammar.fromText([
+      '%start CP',
+      '%terminals C D NUM N V',
+      'CP -> C TP',
+      'TP -> DP V',
+      'DP -> D NUM N | D N',
+    ].join('\n'));
+
+    expect(g.startSymbol).toBe('CP');
+    expect(g.getNonTerminals()).toEqual(['CP', 'TP', 'DP']);
+    expect(g.getTerminals()).toEqual(['C', 'D', 'NUM', 'N', 'V']);
+    expect(Grammar.fromText(g.toText()).toText()).toBe(g.toText());
+  });
+
+  it('should round-trip terminals inferred from the rules', () => {
+    const g = new Grammar();
+    g.addRule('NP', ['NUM', 'N']);
+    g.addRule('S', ['NP', 'V']);
+    const copy = Grammar.fromText(g.toText());
+
+    expect(copy.getTerminals()).toEqual(['NUM', 'N', 'V']);
+    expect(copy.getAllRules()).toEqual(g.getAllRules());
+  });
+
+  it('should round-trip declared custom terminals mixed with built-in ones', () => {
+    const g = new Grammar({ terminals: ['NUM'] });
+    g.addRule('S', ['NP', 'VP']);
+    g.addRule('NP', ['DET', 'NUM', 'N']);
+    g.addRule('VP', ['V']);
+    const copy = Grammar.fromText(g.toText());
+
+    expect(copy.getTerminals()).toEqual(g.getTerminals());
+    expect(copy.getAllRules()).toEqual(g.getAllRules());
+  });
+});
@@ -0,0 +1,241 @@
+import type { FeatureEquation, FeatureName, GrammarRule, NonTerminal, PartOfSpeech } from '../types.js';
+import { FEATURE_NAMES, PARTS_OF_SPEECH } from '../types.js';
+import { FormatError } from './errors.js';
+import type { FormatIssue } from './errors.js';
+
+/**
+ * Plain-text grammar format, one rule group per line:
+ *
+ *   # Comments run to the end of the line
+ *   %start S
+ *   S  -> NP VP [1.0] {number,person: 1=2}
+ *   NP -> N [0.6] | DET N [0.9]
+ *
+ * Each `|` alternative is a rule with an optional probability in brackets
+ * (default 1.0) and optional feature equations in braces. An equation lists
+ * features, then the positions that must agree (0 is the LHS, 1..n the RHS);
+ * separate several equations with `;`. Write `ε` for an empty right-hand
+ * side (`ADJP -> ε`).
+ *
+ * Symbols with rules are non-terminals. Any other symbol must be a terminal:
+ * one of the built-in parts of speech, or those listed by `%terminals`.
+ */
+
+/** The contents of a grammar file */
+export interface GrammarText {
+  rules: GrammarRule[];
+  /** From `%start` (the grammar's default when absent) */
+  startSymbol?: NonTerminal;
+  /** From `%terminals` (the built-in parts of speech when absent) */
+  terminals?: PartOfSpeech[];
+}
+
+const ARROW = /->|→/;
+const ALTERNATIVE = /^([^[{]*?)\s*(?:\[([^\]]*)\])?\s*(?:\{([^}]*)\})?\s*$/;
+const DEFAULT_START: NonTerminal = 'S';
+const EMPTY = 'ε';
+
+/** A rule read from a line, before its symbols are checked */
+interface RuleLine {
+  line: number;
+  rule: GrammarRule;
+}
+
+/**
+ * Parse grammar text into rules and directives, reporting every bad line.
+ * @throws FormatError listing each problem with its line number
+ */
+export function parseGrammarText(text: string): GrammarText {
+  const ruleLines: RuleLine[] = [];
+  const issues: FormatIssue[] = [];
+  let start: { line: number; symbol: NonTerminal } | undefined;
+  let terminals: PartOfSpeech[] | undefined;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const content = raw.replace(/#.*$/, '').trim();
+    if (content === '') return;
+
+    const report = (message: string): void => {
+      issues.push({ line, message });
+    };
+
+    if (content.startsWith('%')) {
+      const [directive, ...args] = content.split(/\s+/);
+      if (directive === '%start' && args.length === 1) {
+        start = { line, symbol: args[0]! };
+      } else if (directive === '%terminals' && args.length > 0) {
+        terminals = [...(terminals ?? []), ...args];
+      } else {
+        report(`expected "%start SYMBOL" or "%terminals SYMBOL...", got "${content}"`);
+      }
+      return;
+    }
+
+    const arrow = ARROW.exec(content);
+    if (!arrow) {
+      report(`expected "LHS -> RHS", got "${content}"`);
+      return;
+    }
+
+    const lhs = content.slice(0, arrow.index).trim();
+    if (!/^\S+$/.test(lhs)) {
+      report(`left-hand side must be a single symbol, got "${lhs}"`);
+      return;
+    }
+
+    for (const alternative of content.slice(arrow.index + arrow[0].length).split('|')) {
+      const rule = parseAlternative(lhs, alternative.trim(), report);
+      if (rule) ruleLines.push({ line, rule });
+    }
+  });
+
+  // Symbols can only be checked once every rule's LHS is known
+  const terminalSet = new Set<string>(terminals ?? PARTS_OF_SPEECH);
+  const nonTerminals = new Set<string>(ruleLines.map(({ rule }) => rule.lhs));
+  const reported = new Set<string>();
+  for (const { line, rule } of ruleLines) {
+    const report = (message: string): void => {
+      if (reported.has(`${line}:${message}`)) return;
+      reported.add(`${line}:${message}`);
+      issues.push({ line, message });
+    };
+
+    if (terminalSet.has(rule.lhs)) {
+      report(`terminal '${rule.lhs}' cannot be a left-hand side`);
+    }
+    for (const symbol of rule.rhs) {
+      if (!terminalSet.has(symbol) && !nonTerminals.has(symbol)) {
+        report(`unknown symbol '${symbol}' in rule for ${rule.lhs}`);
+      }
+    }
+  }
+  if (start && !nonTerminals.has(start.symbol)) {
+    issues.push({ line: start.line, message: `start symbol '${start.symbol}' has no rules` });
+  }
+
+  if (issues.length > 0) {
+    throw new FormatError('grammar', issues.sort((a, b) => a.line - b.line));
+  }
+
+  const result: GrammarText = { rules: ruleLines.map(({ rule }) => rule) };
+  if (start) result.startSymbol = start.symbol;
+  if (terminals) result.terminals = terminals;
+  return result;
+}
+
+/**
+ * Format a grammar as text, grouping rules by left-hand side.
+ * Directives are only written when they differ from the defaults.
+ */
+export function formatGrammarText({ rules, startSymbol, terminals }: GrammarText): string {
+  const sections: string[] = [];
+
+  const directives: string[] = [];
+  if (startSymbol && startSymbol !== DEFAULT_START) directives.push(`%start ${startSymbol}`);
+  if (terminals && terminals.length > 0) directives.push(`%terminals ${terminals.join(' ')}`);
+  if (directives.length > 0) sections.push(directives.join('\n'));
+
+  const groups = new Map<string, GrammarRule[]>();
+  for (const rule of rules) {
+    const group = groups.get(rule.lhs) ?? [];
+    group.push(rule);
+    groups.set(rule.lhs, group);
+  }
+  for (const group of groups.values()) {
+    sections.push(group.map(formatRule).join('\n'));
+  }
+
+  return sections.join('\n\n') + '\n';
+}
+
+function formatRule(rule: GrammarRule): string {
+  const rhs = rule.rhs.length > 0 ? rule.rhs.join(' ') : EMPTY;
+  let text = `${rule.lhs} -> ${rhs} [${rule.probability ?? 1}]`;
+  if (rule.features && rule.features.length > 0) {
+    const equations = rule.features.map(eq => `${eq.features.join(',')}: ${eq.positions.join('=')}`);
+    text += ` {${equations.join('; ')}}`;
+  }
+  return text;
+}
+
+function parseAlternative(
+  lhs: NonTerminal,
+  text: string,
+  report: (message: string) => void
+): GrammarRule | null {
+  const match = ALTERNATIVE.exec(text);
+  if (!match) {
+    report(`cannot read alternative "${text}"`);
+    return null;
+  }
+
+  const [, symbolText = '', probabilityText, featureText] = match;
+  let rhs = symbolText.split(/\s+/).filter(s => s !== '');
+  if (rhs.length === 0) {
+    report(`empty right-hand side for ${lhs} (write ${EMPTY} for an empty rule)`);
+    return null;
+  }
+  if (rhs.includes(EMPTY)) {
+    if (rhs.length > 1) {
+      report(`${EMPTY} must be the only symbol of an alternative, got "${symbolText}"`);
+      return null;
+    }
+    rhs = [];
+  }
+
+  let valid = true;
+  let probability = 1.0;
+  if (probabilityText !== undefined) {
+    probability = Number(probabilityText.trim());
+    if (probabilityText.trim() === '' || !Number.isFinite(probability) || probability < 0 || probability > 1) {
+      report(`probability must be a number between 0 and 1, got "${probabilityText}"`);
+      valid = false;
+    }
+  }
+
+  let features: FeatureEquation[] | undefined;
+  if (featureText !== undefined) {
+    features = parseEquations(featureText, rhs.length, report);
+    if (!features) valid = false;
+  }
+
+  if (!valid) return null;
+
+  const rule: GrammarRule = { lhs, rhs, probability };
+  if (features && features.length > 0) rule.features = features;
+  return rule;
+}
+
+function parseEquations(
+  text: string,
+  rhsLength: number,
+  report: (message: string) => void
+): FeatureEquation[] | undefined {
+  const equations: FeatureEquation[] = [];
+
+  for (const part of text.split(';').map(p => p.trim()).filter(p => p !== '')) {
+    const [namesText, positionsText] = part.split(':');
+    if (positionsText === undefined) {
+      report(`feature equation "${part}" needs "features: positions"`);
+      return undefined;
+    }
+
+    const names = namesText!.split(',').map(n => n.trim());
+    const unknown = names.filter(n => !(FEATURE_NAMES as readonly string[]).includes(n));
+    if (unknown.length > 0) {
+      report(`unknown feature '${unknown[0]}'`);
+      return undefined;
+    }
+
+    const positions = positionsText.split('=').map(p => Number(p.trim()));
+    if (positions.length < 2 || positions.some(p => !Number.isInteger(p) || p < 0 || p > rhsLength)) {
+      report(`feature positions must be two or more of 0..${rhsLength}, got "${positionsText.trim()}"`);
+      return undefined;
+    }
+
+    equations.push({ features: names as FeatureName[], positions });
+  }
+
+  return equations;
+}
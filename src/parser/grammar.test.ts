@@ -32,6 +32,30 @@ describe('Grammar', () => {
     const g = new Grammar();
     expect(g.startSymbol).toBe('S');
   });
+
+  it('should accept a custom start symbol', () => {
+    expect(new Grammar({ startSymbol: 'CP' }).startSymbol).toBe('CP');
+  });
+
+  it('should infer terminals and non-terminals from its rules', () => {
+    const g = new Grammar()
+      .addRule('S', ['DP', 'VP'])
+      .addRule('DP', ['D', 'NUM', 'N'])
+      .addRule('VP', ['V']);
+
+    expect(g.getNonTerminals()).toEqual(['S', 'DP', 'VP']);
+    expect(g.getTerminals()).toEqual(['D', 'NUM', 'N', 'V']);
+    expect(g.isNonTerminal('DP')).toBe(true);
+    expect(g.isTerminal('NUM')).toBe(true);
+    expect(g.isTerminal('DP')).toBe(false);
+  });
+
+  it('should keep declared terminals and refuse rules for them', () => {
+    const g = new Grammar({ terminals: ['GEN'] }).addRule('S', ['N']);
+
+    expect(g.getTerminals()).toEqual(['GEN', 'N']);
+    expect(() => g.addRule('GEN', ['N'])).toThrow(/terminal 'GEN'/);
+  });
 });
 
 describe('createEnglishGrammar', () => {
@@ -1,23 +1,73 @@
-import type { GrammarRule, NonTerminal, GrammarSymbol } from '../types.js';
+import type { GrammarRule, NonTerminal, GrammarSymbol, FeatureEquation, FeatureName, PartOfSpeech } from '../types.js';
+import { NON_TERMINALS, PARTS_OF_SPEECH } from '../types.js';
+import { agree } from './features.js';
+import { formatGrammarText, parseGrammarText } from './grammar-text.js';
+
+/**
+ * Options for a grammar's symbol sets.
+ */
+export interface GrammarOptions {
+  /** Symbol every sentence derives from (default 'S') */
+  startSymbol?: NonTerminal;
+  /** Symbols that are always terminals, even before any rule uses them */
+  terminals?: Iterable<PartOfSpeech>;
+}
 
 /**
  * A context-free grammar for parsing English sentences.
+ * Any symbol with rules is a non-terminal; every other symbol used in a
+ * rule is a terminal (a part of speech matched against the lexicon).
  */
 export class Grammar {
   private rules: GrammarRule[] = [];
   private rulesByLhs: Map<NonTerminal, GrammarRule[]> = new Map();
+  private terminalSymbols: Set<PartOfSpeech> = new Set();
+  private declaredTerminals: Set<PartOfSpeech>;
+  private start: NonTerminal;
+
+  constructor(options: GrammarOptions = {}) {
+    this.start = options.startSymbol ?? 'S';
+    this.declaredTerminals = new Set(options.terminals ?? []);
+    for (const symbol of this.declaredTerminals) {
+      this.terminalSymbols.add(symbol);
+    }
+  }
+
+  /**
+   * Build a grammar from the plain-text rule format (see grammar-text.ts).
+   * @throws FormatError listing each bad line
+   */
+  static fromText(text: string): Grammar {
+    const { rules, startSymbol, terminals } = parseGrammarText(text);
+    const grammar = new Grammar({ startSymbol, terminals });
+    for (const rule of rules) {
+      grammar.addRule(rule.lhs, rule.rhs, rule.probability, rule.features);
+    }
+    return grammar;
+  }
 
   /**
-   * Add a grammar rule.
+   * Add a grammar rule, optionally with feature equations for agreement.
    */
-  addRule(lhs: NonTerminal, rhs: GrammarSymbol[], probability = 1.0): this {
+  addRule(lhs: NonTerminal, rhs: GrammarSymbol[], probability = 1.0, features?: FeatureEquation[]): this {
+    if (this.declaredTerminals.has(lhs)) {
+      throw new Error(`Cannot add a rule for terminal '${lhs}'`);
+    }
+
     const rule: GrammarRule = { lhs, rhs, probability };
+    if (features && features.length > 0) rule.features = features;
     this.rules.push(rule);
 
     const existing = this.rulesByLhs.get(lhs) ?? [];
     existing.push(rule);
     this.rulesByLhs.set(lhs, existing);
 
+    // A symbol with rules is a non-terminal, even if it was used as a terminal before
+    this.terminalSymbols.delete(lhs);
+    for (const symbol of rhs) {
+      if (!this.rulesByLhs.has(symbol)) this.terminalSymbols.add(symbol);
+    }
+
     return this;
   }
 
@@ -36,10 +86,60 @@ export class Grammar {
   }
 
   /**
-   * Get the start symbol (always 'S' for sentence).
+   * Check if a symbol is a terminal (matched by a word) in this grammar.
+   */
+  isTerminal(symbol: GrammarSymbol): symbol is PartOfSpeech {
+    return !this.rulesByLhs.has(symbol);
+  }
+
+  /**
+   * Check if a symbol is a non-terminal (has rules) in this grammar.
+   */
+  isNonTerminal(symbol: GrammarSymbol): symbol is NonTerminal {
+    return this.rulesByLhs.has(symbol);
+  }
+
+  /**
+   * Get the terminals: declared ones plus every rule symbol without rules.
+   */
+  getTerminals(): PartOfSpeech[] {
+    return [...this.terminalSymbols];
+  }
+
+  /**
+   * Get the terminals given to the constructor (empty if none were declared).
+   */
+  getDeclaredTerminals(): PartOfSpeech[] {
+    return [...this.declaredTerminals];
+  }
+
+  /**
+   * Get the non-terminals, in the order their first rule was added.
+   */
+  getNonTerminals(): NonTerminal[] {
+    return [...this.rulesByLhs.keys()];
+  }
+
+  /**
+   * Write the grammar in the plain-text rule format, readable by fromText.
+   * Unless every terminal is a built-in part of speech, `%terminals` lists
+   * all of them, since it replaces the built-in set when read back.
+   */
+  toText(): string {
+    const terminals = this.getTerminals();
+    const builtIn = this.declaredTerminals.size === 0 && terminals.every(t => PARTS_OF_SPEECH.includes(t));
+    return formatGrammarText({
+      rules: this.rules,
+      startSymbol: this.start,
+      terminals: builtIn ? [] : terminals,
+    });
+  }
+
+  /**
+   * Get the start symbol ('S' for sentence unless configured otherwise).
    */
   get startSymbol(): NonTerminal {
-    return 'S';
+    return this.start;
   }
 }
 
@@ -51,58 +151,63 @@ export class Grammar {
  * - Verb phrases with objects
  * - Relative clauses (both full and reduced)
  * - Prepositional phrases
+ * - Subject-verb agreement on number and person
  */
 export function createEnglishGrammar(): Grammar {
   const g = new Grammar();
+  // Agreement features shared by subjects and verbs
+  const AGR: FeatureName[] = ['number', 'person'];
 
   // Sentence rules
-  g.addRule('S', ['NP', 'VP'], 1.0);
+  // S → NP VP: the subject agrees with the verb phrase
+  g.addRule('S', ['NP', 'VP'], 1.0, [agree(AGR, 1, 2)]);
   // Imperative sentences (commands): "Buffalo!" = "Intimidate!"
-  g.addRule('S', ['VP'], 0.8);
+  // The verb's agreement passes up so a reduced relative (RC → S) still agrees with its noun
+  g.addRule('S', ['VP'], 0.8, [agree(AGR, 0, 1)]);
   // Exclamatory/nominal sentences: "Buffalo!" (as exclamation about noun)
   g.addRule('S', ['NP'], 0.5);
   // Compound sentences: "Buffalo buffalo and buffalo buffalo"
   g.addRule('S', ['S', 'CONJ', 'S'], 0.7);
 
-  // Noun phrase rules
+  // Noun phrase rules (each passes its head noun's agreement features up)
   // NP → N (bare noun, especially for plurals/proper nouns)
-  g.addRule('NP', ['N'], 0.6);
+  g.addRule('NP', ['N'], 0.6, [agree(AGR, 0, 1)]);
   // NP → DET N
-  g.addRule('NP', ['DET', 'N'], 0.9);
+  g.addRule('NP', ['DET', 'N'], 0.9, [agree(AGR, 0, 2)]);
   // NP → DET ADJ N
-  g.addRule('NP', ['DET', 'ADJ', 'N'], 0.8);
+  g.addRule('NP', ['DET', 'ADJ', 'N'], 0.8, [agree(AGR, 0, 3)]);
   // NP → ADJ N (no determiner)
-  g.addRule('NP', ['ADJ', 'N'], 0.5);
+  g.addRule('NP', ['ADJ', 'N'], 0.5, [agree(AGR, 0, 2)]);
   // NP → NP PP (noun phrase with prepositional phrase)
-  g.addRule('NP', ['NP', 'PP'], 0.6);
+  g.addRule('NP', ['NP', 'PP'], 0.6, [agree(AGR, 0, 1)]);
   // NP → NP RC (noun phrase with relative clause)
-  g.addRule('NP', ['NP', 'RC'], 0.7);
+  g.addRule('NP', ['NP', 'RC'], 0.7, [agree(AGR, 0, 1, 2)]);
   // NP → PN N (proper noun modifying noun, e.g., "Buffalo buffalo" = bison from Buffalo)
   // Note: We intentionally don't allow NP → PN alone, because "Buffalo" (the city)
   // only functions as an adjective/modifier in Buffalo sentences, not as a standalone NP
-  g.addRule('NP', ['PN', 'N'], 0.85);
+  g.addRule('NP', ['PN', 'N'], 0.85, [agree(AGR, 0, 2)]);
   // Compound noun phrases: "buffalo and buffalo"
   g.addRule('NP', ['NP', 'CONJ', 'NP'], 0.6);
 
-  // Verb phrase rules
+  // Verb phrase rules (each passes its verb's agreement features up)
   // VP → V (intransitive)
-  g.addRule('VP', ['V'], 0.7);
+  g.addRule('VP', ['V'], 0.7, [agree(AGR, 0, 1)]);
   // VP → V NP (transitive)
-  g.addRule('VP', ['V', 'NP'], 0.9);
+  g.addRule('VP', ['V', 'NP'], 0.9, [agree(AGR, 0, 1)]);
   // VP → V NP PP
-  g.addRule('VP', ['V', 'NP', 'PP'], 0.6);
+  g.addRule('VP', ['V', 'NP', 'PP'], 0.6, [agree(AGR, 0, 1)]);
   // VP → V PP
-  g.addRule('VP', ['V', 'PP'], 0.5);
+  g.addRule('VP', ['V', 'PP'], 0.5, [agree(AGR, 0, 1)]);
   // VP → V ADV (verb with adverb)
-  g.addRule('VP', ['V', 'ADV'], 0.6);
+  g.addRule('VP', ['V', 'ADV'], 0.6, [agree(AGR, 0, 1)]);
   // VP → ADV V (adverb before verb)
-  g.addRule('VP', ['ADV', 'V'], 0.5);
+  g.addRule('VP', ['ADV', 'V'], 0.5, [agree(AGR, 0, 2)]);
   // VP → V NP ADV (transitive with trailing adverb)
-  g.addRule('VP', ['V', 'NP', 'ADV'], 0.5);
+  g.addRule('VP', ['V', 'NP', 'ADV'], 0.5, [agree(AGR, 0, 1)]);
   // VP → ADV V NP (adverb before transitive verb)
-  g.addRule('VP', ['ADV', 'V', 'NP'], 0.5);
+  g.addRule('VP', ['ADV', 'V', 'NP'], 0.5, [agree(AGR, 0, 2)]);
   // Compound verb phrases: "buffalo and buffalo"
-  g.addRule('VP', ['VP', 'CONJ', 'VP'], 0.6);
+  g.addRule('VP', ['VP', 'CONJ', 'VP'], 0.6, [agree(AGR, 0, 1, 3)]);
 
   // Adverb phrase rules
   g.addRule('ADVP', ['ADV'], 0.8);
@@ -114,14 +219,15 @@ export function createEnglishGrammar(): Grammar {
 
   // Relative clause rules
   // RC → REL S (full relative clause: "who the dog bit")
-  g.addRule('RC', ['REL', 'S'], 0.8);
+  // When S is just a VP ("who runs"), its verb must agree with the modified noun
+  g.addRule('RC', ['REL', 'S'], 0.8, [agree(AGR, 0, 2)]);
   // RC → REL VP (relative clause with just VP: "who ran")
-  g.addRule('RC', ['REL', 'VP'], 0.7);
+  g.addRule('RC', ['REL', 'VP'], 0.7, [agree(AGR, 0, 2)]);
   // RC → NP VP (REDUCED relative clause - critical for Buffalo!)
   // "buffalo [that] Buffalo buffalo buffalo" → the "that" is omitted
-  g.addRule('RC', ['NP', 'VP'], 0.6);
+  g.addRule('RC', ['NP', 'VP'], 0.6, [agree(AGR, 1, 2)]);
   // RC → S (another form of reduced relative - subject extracted)
-  g.addRule('RC', ['S'], 0.4);
+  g.addRule('RC', ['S'], 0.4, [agree(AGR, 0, 1)]);
 
   return g;
 }
@@ -130,14 +236,15 @@ export function createEnglishGrammar(): Grammar {
  * Check if a symbol is a terminal (POS tag) vs non-terminal.
  * Non-terminals: S, NP, VP, PP, ADJP, ADVP, RC
  * Terminals: N, V, PN, DET, ADJ, ADV, PREP, CONJ, REL, AUX
+ * @deprecated Only knows the built-in categories; use grammar.isTerminal()
  */
 export function isTerminal(symbol: GrammarSymbol): boolean {
-  const nonTerminals: Set<string> = new Set(['S', 'NP', 'VP', 'PP', 'ADJP', 'ADVP', 'RC']);
-  return !nonTerminals.has(symbol);
+  return !(NON_TERMINALS as readonly string[]).includes(symbol);
 }
 
 /**
  * Check if a symbol is a non-terminal.
+ * @deprecated Only knows the built-in categories; use grammar.isNonTerminal()
  */
 export function isNonTerminal(symbol: GrammarSymbol): symbol is NonTerminal {
   return !isTerminal(symbol);
@@ -1,3 +1,40 @@
 export { Lexicon, createTestLexicon, createBuffaloLexicon } from './lexicon.js';
 export { Grammar, createEnglishGrammar, isTerminal, isNonTerminal } from './grammar.js';
+export type { GrammarOptions } from './grammar.js';
+export { parseGrammarText, formatGrammarText } from './grammar-text.js';
+export type { GrammarText } from './grammar-text.js';
+export {
+  parseLexiconJSON,
+  formatLexiconJSON,
+  parseLexiconTSV,
+  formatLexiconTSV,
+} from './lexicon-format.js';
+export { toBracketed, fromBracketed, readTreebank } from './bracketed.js';
+export { toDependencies, fromDependencies, toCoNLLU, HEAD_RULES } from './dependencies.js';
+export type { DependencyOptions, HeadRules } from './dependencies.js';
+export { createBuffaloTreebank, createTestTreebank } from './treebank.js';
+export { evaluateParser, compareTrees } from './evaluation.js';
+export type { BracketScores, SentenceEvaluation, EvaluationReport } from './evaluation.js';
+export { FormatError, formatParseError } from './errors.js';
+export type { FormatIssue } from './errors.js';
+export { BudgetExceeded } from './budget.js';
+export { analyzeGrammar } from './analysis.js';
+export type { GrammarReport } from './analysis.js';
 export { EarleyParser } from './earley.js';
+export { CYKParser } from './cyk.js';
+export { toChomskyNormalForm } from './cnf.js';
+export type { CNFGrammar, CNFRule } from './cnf.js';
+export { ParseForest } from './forest.js';
+export { ParseSession } from './session.js';
+export { enumerateSentences, sampleSentences, generateRandom, createRandom } from './generator.js';
+export type { GeneratedSentence, RandomOptions, RandomSource } from './generator.js';
+export {
+  allowsPos,
+  constraintsForSelection,
+  sentenceForSelection,
+  treePartsOfSpeech,
+  treeMatchesConstraints,
+} from './constraints.js';
+export type { SelectedWord } from './constraints.js';
+export { agree, generalize } from './features.js';
+export type { ForestNode, SymbolNode, IntermediateNode, PackedNode } from './forest.js';
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { Lexicon, createTestLexicon, createBuffaloLexicon } from './lexicon.js';
+import { formatLexiconJSON } from './lexicon-format.js';
+import { FormatError } from './errors.js';
+
+function issuesOf(load: () => unknown): FormatError['issues'] {
+  try {
+    load();
+  } catch (e) {
+    expect(e).toBeInstanceOf(FormatError);
+    return (e as FormatError).issues;
+  }
+  throw new Error('expected a FormatError');
+}
+
+describe('Lexicon JSON', () => {
+  it('should round-trip the test lexicons', () => {
+    for (const lex of [createTestLexicon(), createBuffaloLexicon()]) {
+      const copy = Lexicon.fromJSON(JSON.stringify(lex));
+      expect(copy.getAllEntries()).toEqual(lex.getAllEntries());
+    }
+  });
+
+  it('should read entries with lemmas and features', () => {
+    const lex = Lexicon.fromJSON('[{"word": "dogs", "pos": "N", "lemma": "dog", "features": {"number": "plural"}}]');
+
+    expect(lex.lookup('dogs')).toEqual([
+      { word: 'dogs', pos: 'N', lemma: 'dog', features: { number: 'plural' } },
+    ]);
+  });
+
+  it('should report bad entries with their line numbers', () => {
+    const text = formatLexiconJSON([
+      { word: 'dog', pos: 'N' },
+      { word: 'dogs', pos: 'NOUN' as never },
+      { word: 'ran', pos: 'V', features: { tense: 'yesterday' as never } },
+    ]);
+
+    expect(issuesOf(() => Lexicon.fromJSON(text))).toEqual([
+      { line: 3, message: "entry 2: unknown part of speech 'NOUN' for 'dogs'" },
+      { line: 4, message: "entry 3: invalid tense 'yesterday' (expected present, past, future)" },
+    ]);
+  });
+
+  it('should reject text that is not an array of entries', () => {
+    expect(() => Lexicon.fromJSON('{"word": "dog"}')).toThrow(FormatError);
+    expect(() => Lexicon.fromJSON('[{"word": "dog",')).toThrow(FormatError);
+  });
+});
+
+describe('Lexicon TSV', () => {
+  it('should round-trip the test lexicons', () => {
+    for (const lex of [createTestLexicon(), createBuffaloLexicon()]) {
+      const copy = Lexicon.fromTSV(lex.toTSV());
+      expect(copy.getAllEntries()).toEqual(lex.getAllEntries());
+    }
+  });
+
+  it('should read word, POS, lemma and features', () => {
+    const lex = Lexicon.fromTSV([
+      '# word\tpos\tlemma\tfeatures',
+      'chases\tV\tchase\ttense=present,number=singular,person=3',
+      'the\tDET',
+    ].join('\n'));
+
+    expect(lex.lookup('chases')[0]!.features).toEqual({ tense: 'present', number: 'singular', person: 3 });
+    expect(lex.lookup('chases')[0]!.lemma).toBe('chase');
+    expect(lex.lookup('the')[0]!.lemma).toBe('the');
+  });
+
+  it('should accept a grammar\'s own parts of speech', () => {
+    const text = 'two\tNUM';
+
+    expect(() => Lexicon.fromTSV(text)).toThrow(FormatError);
+    expect(Lexicon.fromTSV(text, ['NUM']).lookup('two')[0]!.pos).toBe('NUM');
+  });
+
+  it('should report bad rows with their line numbers', () => {
+    const text = [
+      'dog\tN',
+      'dogs\tNOUN\tdog',
+      'runs\tV\trun\tperson=4',
+      'cat',
+      'big\tADJ\t\tcolour=red',
+    ].join('\n');
+
+    expect(issuesOf(() => Lexicon.fromTSV(text))).toEqual([
+      { line: 2, message: "unknown part of speech 'NOUN' for 'dogs'" },
+      { line: 3, message: "invalid person '4' (expected 1, 2, 3)" },
+      { line: 4, message: 'expected 2 to 4 tab-separated columns, got 1' },
+      { line: 5, message: "unknown feature 'colour'" },
+    ]);
+  });
+});
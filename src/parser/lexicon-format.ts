@@ -0,0 +1,247 @@
+import type { FeatureName, GrammaticalFeatures, LexiconEntry, PartOfSpeech } from '../types.js';
+import { FEATURE_NAMES, PARTS_OF_SPEECH } from '../types.js';
+import { FormatError } from './errors.js';
+import type { FormatIssue } from './errors.js';
+
+/**
+ * Serialized lexicon formats.
+ *
+ * JSON is an array of entries: `[{"word": "dogs", "pos": "N", "lemma": "dog",
+ * "features": {"number": "plural"}}, ...]`.
+ *
+ * TSV has one entry per row: word, POS, lemma and features, where features
+ * are written `number=plural,person=3`. Lemma and features may be left empty,
+ * and `#` starts a comment.
+ *
+ * Tags are checked against the built-in parts of speech unless a grammar's
+ * own terminals are passed in.
+ */
+
+/** Allowed values of each grammatical feature */
+const FEATURE_VALUES: Record<FeatureName, readonly (string | number)[]> = {
+  number: ['singular', 'plural'],
+  person: [1, 2, 3],
+  tense: ['present', 'past', 'future'],
+  case: ['nominative', 'accusative', 'genitive'],
+};
+
+const TSV_HEADER = '# word\tpos\tlemma\tfeatures';
+
+/**
+ * Read lexicon entries from JSON text, reporting each bad entry by line.
+ * @throws FormatError listing each problem with its line number
+ */
+export function parseLexiconJSON(
+  text: string,
+  partsOfSpeech: Iterable<PartOfSpeech> = PARTS_OF_SPEECH
+): LexiconEntry[] {
+  const tags = new Set(partsOfSpeech);
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new FormatError('lexicon JSON', [{ line: 1, message: (e as Error).message }]);
+  }
+  if (!Array.isArray(data)) {
+    throw new FormatError('lexicon JSON', [{ line: 1, message: 'expected an array of entries' }]);
+  }
+
+  const lines = entryLines(text);
+  const entries: LexiconEntry[] = [];
+  const issues: FormatIssue[] = [];
+
+  data.forEach((value: unknown, index) => {
+    const line = lines[index] ?? 1;
+    const report = (message: string): void => {
+      issues.push({ line, message: `entry ${index + 1}: ${message}` });
+    };
+
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      report('expected an object');
+      return;
+    }
+
+    const { word, pos, lemma, features } = value as Record<string, unknown>;
+    if (typeof word !== 'string' || word === '') {
+      report('missing word');
+      return;
+    }
+    if (lemma !== undefined && typeof lemma !== 'string') {
+      report(`lemma of '${word}' must be a string`);
+      return;
+    }
+    if (typeof pos !== 'string' || !tags.has(pos)) {
+      report(`unknown part of speech '${String(pos)}' for '${word}'`);
+      return;
+    }
+
+    const entry: LexiconEntry = { word, pos };
+    if (lemma !== undefined) entry.lemma = lemma;
+    if (features !== undefined) {
+      const checked = checkFeatures(features, report);
+      if (!checked) return;
+      entry.features = checked;
+    }
+    entries.push(entry);
+  });
+
+  if (issues.length > 0) {
+    throw new FormatError('lexicon JSON', issues);
+  }
+  return entries;
+}
+
+/**
+ * Write lexicon entries as JSON, one entry per line so diffs stay readable.
+ */
+export function formatLexiconJSON(entries: LexiconEntry[]): string {
+  if (entries.length === 0) return '[]\n';
+  return `[\n${entries.map(entry => `  ${JSON.stringify(entry)}`).join(',\n')}\n]\n`;
+}
+
+/**
+ * Read lexicon entries from TSV text, reporting each bad row by line.
+ * @throws FormatError listing each problem with its line number
+ */
+export function parseLexiconTSV(
+  text: string,
+  partsOfSpeech: Iterable<PartOfSpeech> = PARTS_OF_SPEECH
+): LexiconEntry[] {
+  const tags = new Set(partsOfSpeech);
+  const entries: LexiconEntry[] = [];
+  const issues: FormatIssue[] = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const content = raw.replace(/#.*$/, '');
+    if (content.trim() === '') return;
+
+    const report = (message: string): void => {
+      issues.push({ line, message });
+    };
+
+    const cells = content.split('\t').map(cell => cell.trim());
+    if (cells.length < 2 || cells.length > 4) {
+      report(`expected 2 to 4 tab-separated columns, got ${cells.length}`);
+      return;
+    }
+
+    const [word = '', pos, lemma = '', featureText = ''] = cells;
+    if (word === '') {
+      report('missing word');
+      return;
+    }
+    if (typeof pos !== 'string' || !tags.has(pos)) {
+      report(`unknown part of speech '${pos}' for '${word}'`);
+      return;
+    }
+
+    const entry: LexiconEntry = { word, pos };
+    if (lemma !== '') entry.lemma = lemma;
+    if (featureText !== '') {
+      const checked = checkFeatures(parseFeatureText(featureText), report);
+      if (!checked) return;
+      entry.features = checked;
+    }
+    entries.push(entry);
+  });
+
+  if (issues.length > 0) {
+    throw new FormatError('lexicon TSV', issues);
+  }
+  return entries;
+}
+
+/**
+ * Write lexicon entries as TSV with a header comment.
+ */
+export function formatLexiconTSV(entries: LexiconEntry[]): string {
+  const rows = entries.map(entry => {
+    const features = Object.entries(entry.features ?? {})
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => `${name}=${value}`)
+      .join(',');
+    return [entry.word, entry.pos, entry.lemma ?? '', features].join('\t').replace(/\t+$/, '');
+  });
+  return [TSV_HEADER, ...rows].join('\n') + '\n';
+}
+
+/** Split `number=plural,person=3` into name/value pairs (values still text) */
+function parseFeatureText(text: string): Record<string, string> {
+  const features: Record<string, string> = {};
+  for (const pair of text.split(',')) {
+    const [name = '', value = ''] = pair.split('=').map(part => part.trim());
+    features[name] = value;
+  }
+  return features;
+}
+
+/**
+ * Check feature names and values, converting person to a number.
+ * Returns null (after reporting) if anything is invalid.
+ */
+function checkFeatures(
+  value: unknown,
+  report: (message: string) => void
+): GrammaticalFeatures | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    report('features must be an object');
+    return null;
+  }
+
+  const features: Record<string, string | number> = {};
+  for (const [name, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (!(FEATURE_NAMES as readonly string[]).includes(name)) {
+      report(`unknown feature '${name}'`);
+      return null;
+    }
+    const allowed = FEATURE_VALUES[name as FeatureName];
+    const parsed = name === 'person' && typeof raw === 'string' ? Number(raw) : raw;
+    if (!allowed.includes(parsed as string | number)) {
+      report(`invalid ${name} '${String(raw)}' (expected ${allowed.join(', ')})`);
+      return null;
+    }
+    features[name] = parsed as string | number;
+  }
+  return features as GrammaticalFeatures;
+}
+
+/**
+ * Find the line on which each element of a top-level JSON array starts,
+ * so entry problems can be reported by line.
+ */
+function entryLines(text: string): number[] {
+  const lines: number[] = [];
+  let line = 1;
+  let depth = 0;
+  let inString = false;
+  let expectElement = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (ch === '\n') line++;
+
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (/\s/.test(ch)) continue;
+
+    if (depth === 1 && expectElement && ch !== ']') {
+      lines.push(line);
+      expectElement = false;
+    }
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '[' || ch === '{') {
+      depth++;
+      if (depth === 1) expectElement = true;
+    } else if (ch === ']' || ch === '}') {
+      depth--;
+    } else if (ch === ',' && depth === 1) {
+      expectElement = true;
+    }
+  }
+  return lines;
+}
@@ -1,4 +1,5 @@
 import type { LexiconEntry, PartOfSpeech, GrammaticalFeatures } from '../types.js';
+import { formatLexiconTSV, parseLexiconJSON, parseLexiconTSV } from './lexicon-format.js';
 
 /**
  * A lexicon (dictionary) that maps words to their possible parts of speech.
@@ -7,6 +8,32 @@ import type { LexiconEntry, PartOfSpeech, GrammaticalFeatures } from '../types.j
 export class Lexicon {
   private entries: Map<string, LexiconEntry[]> = new Map();
 
+  /**
+   * Build a lexicon from JSON text: an array of entries.
+   * Pass a grammar's terminals to allow its custom parts of speech.
+   * @throws FormatError listing each bad entry with its line number
+   */
+  static fromJSON(text: string, partsOfSpeech?: Iterable<PartOfSpeech>): Lexicon {
+    return Lexicon.fromEntries(parseLexiconJSON(text, partsOfSpeech));
+  }
+
+  /**
+   * Build a lexicon from TSV rows of word, POS, lemma and features.
+   * Pass a grammar's terminals to allow its custom parts of speech.
+   * @throws FormatError listing each bad row with its line number
+   */
+  static fromTSV(text: string, partsOfSpeech?: Iterable<PartOfSpeech>): Lexicon {
+    return Lexicon.fromEntries(parseLexiconTSV(text, partsOfSpeech));
+  }
+
+  private static fromEntries(entries: LexiconEntry[]): Lexicon {
+    const lex = new Lexicon();
+    for (const entry of entries) {
+      lex.addWord(entry.word, entry.pos, entry.features, entry.lemma);
+    }
+    return lex;
+  }
+
   /**
    * Add a word to the lexicon with a specific part of speech.
    * The same word can be added multiple times with different POS.
@@ -54,6 +81,33 @@ export class Lexicon {
     return Array.from(this.entries.keys());
   }
 
+  /**
+   * Get all entries, in the order words were first added.
+   */
+  getAllEntries(): LexiconEntry[] {
+    return Array.from(this.entries.values()).flat();
+  }
+
+  /**
+   * Get the entries as plain data, so `JSON.stringify(lexicon)` writes
+   * the format read by fromJSON.
+   */
+  toJSON(): LexiconEntry[] {
+    return this.getAllEntries().map(entry => {
+      const data: LexiconEntry = { word: entry.word, pos: entry.pos };
+      if (entry.lemma !== undefined) data.lemma = entry.lemma;
+      if (entry.features !== undefined) data.features = { ...entry.features };
+      return data;
+    });
+  }
+
+  /**
+   * Write the lexicon as TSV, readable by fromTSV.
+   */
+  toTSV(): string {
+    return formatLexiconTSV(this.getAllEntries());
+  }
+
   /**
    * Get the total number of entries (including multiple POS per word).
    */
@@ -78,35 +132,35 @@ export function createTestLexicon(): Lexicon {
   lex.addWord('a', 'DET');
   lex.addWord('an', 'DET');
 
-  // Nouns
-  lex.addWord('dog', 'N', { number: 'singular' });
-  lex.addWord('dogs', 'N', { number: 'plural' }, 'dog');
-  lex.addWord('cat', 'N', { number: 'singular' });
-  lex.addWord('cats', 'N', { number: 'plural' }, 'cat');
-  lex.addWord('man', 'N', { number: 'singular' });
-  lex.addWord('men', 'N', { number: 'plural' }, 'man');
-  lex.addWord('woman', 'N', { number: 'singular' });
-  lex.addWord('women', 'N', { number: 'plural' }, 'woman');
-  lex.addWord('bird', 'N', { number: 'singular' });
-  lex.addWord('birds', 'N', { number: 'plural' }, 'bird');
-  lex.addWord('fish', 'N', { number: 'singular' });
-  lex.addWord('fish', 'N', { number: 'plural' }); // fish is same singular/plural
+  // Nouns (all third person)
+  lex.addWord('dog', 'N', { number: 'singular', person: 3 });
+  lex.addWord('dogs', 'N', { number: 'plural', person: 3 }, 'dog');
+  lex.addWord('cat', 'N', { number: 'singular', person: 3 });
+  lex.addWord('cats', 'N', { number: 'plural', person: 3 }, 'cat');
+  lex.addWord('man', 'N', { number: 'singular', person: 3 });
+  lex.addWord('men', 'N', { number: 'plural', person: 3 }, 'man');
+  lex.addWord('woman', 'N', { number: 'singular', person: 3 });
+  lex.addWord('women', 'N', { number: 'plural', person: 3 }, 'woman');
+  lex.addWord('bird', 'N', { number: 'singular', person: 3 });
+  lex.addWord('birds', 'N', { number: 'plural', person: 3 }, 'bird');
+  lex.addWord('fish', 'N', { number: 'singular', person: 3 });
+  lex.addWord('fish', 'N', { number: 'plural', person: 3 }); // fish is same singular/plural
 
   // Verbs
   lex.addWord('chased', 'V', { tense: 'past' }, 'chase');
-  lex.addWord('chase', 'V', { tense: 'present' });
+  addBarePresent(lex, 'chase');
   lex.addWord('chases', 'V', { tense: 'present', number: 'singular', person: 3 }, 'chase');
   lex.addWord('bit', 'V', { tense: 'past' }, 'bite');
-  lex.addWord('bite', 'V', { tense: 'present' });
+  addBarePresent(lex, 'bite');
   lex.addWord('bites', 'V', { tense: 'present', number: 'singular', person: 3 }, 'bite');
   lex.addWord('ran', 'V', { tense: 'past' }, 'run');
-  lex.addWord('run', 'V', { tense: 'present' });
+  addBarePresent(lex, 'run');
   lex.addWord('runs', 'V', { tense: 'present', number: 'singular', person: 3 }, 'run');
   lex.addWord('saw', 'V', { tense: 'past' }, 'see');
-  lex.addWord('see', 'V', { tense: 'present' });
+  addBarePresent(lex, 'see');
   lex.addWord('sees', 'V', { tense: 'present', number: 'singular', person: 3 }, 'see');
   lex.addWord('ate', 'V', { tense: 'past' }, 'eat');
-  lex.addWord('eat', 'V', { tense: 'present' });
+  addBarePresent(lex, 'eat');
   lex.addWord('eats', 'V', { tense: 'present', number: 'singular', person: 3 }, 'eat');
 
   // Adjectives
@@ -140,6 +194,16 @@ export function createTestLexicon(): Lexicon {
   return lex;
 }
 
+/**
+ * Add a verb's bare present form, which agrees with plural subjects and
+ * with singular ones in the first or second person ("I chase", "you chase").
+ */
+function addBarePresent(lex: Lexicon, verb: string): void {
+  lex.addWord(verb, 'V', { tense: 'present', number: 'plural' });
+  lex.addWord(verb, 'V', { tense: 'present', number: 'singular', person: 1 });
+  lex.addWord(verb, 'V', { tense: 'present', number: 'singular', person: 2 });
+}
+
 /**
  * Create the Buffalo-only lexicon for Buffalo sentence parsing.
  */
@@ -150,8 +214,8 @@ export function createBuffaloLexicon(): Lexicon {
   lex.addWord('Buffalo', 'PN', undefined, 'buffalo');
 
   // buffalo (noun) - the animal (works for both singular and plural)
-  lex.addWord('buffalo', 'N', { number: 'plural' });
-  lex.addWord('buffalo', 'N', { number: 'singular' });
+  lex.addWord('buffalo', 'N', { number: 'plural', person: 3 });
+  lex.addWord('buffalo', 'N', { number: 'singular', person: 3 });
 
   // buffalo (verb) - to intimidate (works for plural subjects in present)
   lex.addWord('buffalo', 'V', { tense: 'present', number: 'plural' });
@@ -1,8 +1,12 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import { EarleyParser } from './earley.js';
-import { createEnglishGrammar } from './grammar.js';
-import { createTestLexicon, createBuffaloLexicon } from './lexicon.js';
-import type { ParseNode } from '../types.js';
+import { CYKParser } from './cyk.js';
+import { Grammar, createEnglishGrammar } from './grammar.js';
+import { Lexicon, createTestLexicon, createBuffaloLexicon } from './lexicon.js';
+import { createRandom } from './generator.js';
+import { BudgetExceeded } from './budget.js';
+import { formatParseError } from './errors.js';
+import type { ParseNode, ParseTree } from '../types.js';
 
 describe('EarleyParser', () => {
   describe('with test lexicon', () => {
@@ -43,14 +47,30 @@ describe('EarleyParser', () => {
       const result = parser.parse(['the', 'xyz', 'ran']);
 
       expect(result.trees).toHaveLength(0);
-      expect(result.errors).toBeDefined();
+      expect(result.errors).toEqual([
+        { kind: 'UnknownWord', position: 1, word: 'xyz' },
+        { kind: 'NoParse', furthestPosition: 1, expected: expect.arrayContaining(['N', 'ADJ']) },
+      ]);
     });
 
     it('should fail on empty input', () => {
       const result = parser.parse([]);
 
       expect(result.trees).toHaveLength(0);
-      expect(result.errors).toContain('Empty input');
+      expect(result.errors).toEqual([{ kind: 'EmptyInput' }]);
+    });
+
+    it('should report where a sentence without a parse stops', () => {
+      const result = parser.parse(['the', 'the', 'dog', 'ran']);
+
+      expect(result.errors).toEqual([{ kind: 'NoParse', furthestPosition: 1, expected: expect.any(Array) }]);
+    });
+
+    it('should say when every word was read but none of the readings agree', () => {
+      const [error] = parser.parse(['the', 'dog', 'chase', 'the', 'cat']).errors!;
+
+      expect(error).toMatchObject({ kind: 'NoParse', furthestPosition: 5, atEnd: true });
+      expect(formatParseError(error!)).toBe('No valid parse found: the sentence is incomplete or its words do not agree');
     });
 
     it('should return multiple parses for ambiguous sentences', () => {
@@ -174,3 +194,547 @@ function serializeTree(node: ParseNode): string {
   const children = node.children.map(c => serializeTree(c)).join(' ');
   return `(${node.symbol} ${children})`;
 }
+
+describe('Parse counting', () => {
+  const grammar = createEnglishGrammar();
+  const parser = new EarleyParser(grammar, createBuffaloLexicon());
+
+  it('should count every distinct parse', () => {
+    const input = ['buffalo', 'buffalo', 'buffalo'];
+    const result = parser.parse(input);
+
+    expect(parser.countParses(input)).toBe(BigInt(result.trees.length));
+    expect(result.totalCount).toBe(BigInt(result.trees.length));
+    expect(result.truncated).toBe(false);
+  });
+
+  it('should count past the tree limit', () => {
+    const input = Array<string>(8).fill('buffalo');
+    const result = parser.parse(input);
+
+    expect(result.trees).toHaveLength(100);
+    expect(result.totalCount).toBeGreaterThan(100n);
+    expect(result.truncated).toBe(true);
+    expect(result.errors).toBeUndefined();
+    expect(result.budgetHit).toBe('maxTrees');
+  });
+
+  it('should count zero for unparseable or empty input', () => {
+    const testParser = new EarleyParser(grammar, createTestLexicon());
+
+    expect(testParser.countParses(['the', 'xyz', 'ran'])).toBe(0n);
+    expect(testParser.countParses([])).toBe(0n);
+    expect(testParser.parse([]).totalCount).toBe(0n);
+  });
+});
+
+describe('Probabilistic ranking', () => {
+  const parser = new EarleyParser(createEnglishGrammar(), createBuffaloLexicon());
+
+  it('should return parses from most to least probable', () => {
+    const result = parser.parse(Array<string>(8).fill('buffalo'));
+    const probabilities = result.trees.map(t => t.probability!);
+
+    expect(probabilities).toEqual([...probabilities].sort((a, b) => b - a));
+  });
+
+  it('should return the top-ranked parse as the best parse', () => {
+    const input = ['Buffalo', 'buffalo', 'buffalo'];
+    const best = parser.bestParse(input);
+
+    expect(best).not.toBeNull();
+    expect(best!.probability).toBeCloseTo(parser.parse(input).trees[0]!.probability!, 12);
+  });
+});
+
+describe('Feature agreement', () => {
+  const parser = new EarleyParser(createEnglishGrammar(), createTestLexicon());
+
+  it('should reject subject-verb number disagreement', () => {
+    expect(parser.parse(['the', 'dog', 'chase', 'the', 'cat']).trees).toHaveLength(0);
+    expect(parser.parse(['the', 'dogs', 'chases', 'the', 'cat']).trees).toHaveLength(0);
+  });
+
+  it('should accept agreeing subjects and verbs', () => {
+    expect(parser.parse(['the', 'dog', 'chases', 'the', 'cat']).trees.length).toBeGreaterThan(0);
+    expect(parser.parse(['the', 'dogs', 'chase', 'the', 'cat']).trees.length).toBeGreaterThan(0);
+    // Past tense verbs agree with any subject
+    expect(parser.parse(['the', 'dog', 'chased', 'the', 'cat']).trees.length).toBeGreaterThan(0);
+  });
+
+  it('should check each reading of a homograph on its own', () => {
+    // Bare "chase" is plural, or singular in the first or second person: none fits "dog"
+    expect(parser.countParses(['the', 'dog', 'chase', 'the', 'cat'])).toBe(0n);
+    expect(new CYKParser(createEnglishGrammar(), createTestLexicon()).countParses(['the', 'dog', 'chase', 'the', 'cat'])).toBe(0n);
+    expect(parser.countParses(['the', 'dogs', 'chase', 'the', 'cat'])).toBeGreaterThan(0n);
+  });
+
+  it('should derive a tree once however many readings fit it', () => {
+    // The object "fish" may be singular or plural: the same trees either way
+    const forest = parser.parseForest(['the', 'fish', 'eat', 'the', 'fish']);
+    const trees = [...forest.trees()].map(tree => serializeTree(tree.root));
+
+    expect(new Set(trees).size).toBe(trees.length);
+    expect(BigInt(trees.length)).toBe(forest.count());
+    expect(forest.bestTree()!.root.children[1]!.children[1]!.features).toEqual({ person: 3 });
+  });
+
+  it('should treat words that are both singular and plural as either', () => {
+    expect(parser.parse(['the', 'fish', 'runs']).trees.length).toBeGreaterThan(0);
+    expect(parser.parse(['the', 'fish', 'run']).trees.length).toBeGreaterThan(0);
+  });
+
+  it('should check agreement inside relative clauses', () => {
+    expect(parser.parse(['the', 'dogs', 'who', 'runs', 'ran']).trees).toHaveLength(0);
+    expect(parser.parse(['the', 'dogs', 'who', 'run', 'ran']).trees.length).toBeGreaterThan(0);
+  });
+
+  it('should resolve features on parse nodes', () => {
+    const tree = parser.parse(['the', 'dogs', 'chase', 'the', 'cat']).trees[0]!;
+    const [subject, predicate] = tree.root.children;
+
+    expect(subject!.symbol).toBe('NP');
+    expect(subject!.features?.number).toBe('plural');
+    expect(predicate!.features?.number).toBe('plural');
+    expect(predicate!.children[0]!.features).toEqual({ tense: 'present', number: 'plural' });
+  });
+
+  it('should keep readings of a phrase whose features differ', () => {
+    // "dogs on [cats and the man]" is plural, "[dogs on cats] and the man" has no number
+    const trees = parser.parse(['dogs', 'on', 'cats', 'and', 'the', 'man']).trees;
+    const subjectRules = trees
+      .filter(t => t.root.children.length === 1 && t.root.children[0]!.symbol === 'NP')
+      .map(t => t.root.children[0]!.children.map(c => c.symbol).join(' '));
+
+    expect(subjectRules).toContain('NP PP');
+    expect(subjectRules).toContain('NP CONJ NP');
+  });
+
+  it('should give each tree its own root features', () => {
+    const trees = parser.parse(['sees', 'and', 'chases', 'away']).trees;
+    const imperative = trees.find(t => t.root.children[0]!.symbol === 'VP')!;
+    const compound = trees.find(t => t.root.children[0]!.symbol === 'S')!;
+
+    expect(imperative.root.features).toEqual({ number: 'singular', person: 3 });
+    expect(compound.root.features).toBeUndefined();
+  });
+
+  it('should not change the readings of Buffalo sentences', () => {
+    const buffaloParser = new EarleyParser(createEnglishGrammar(), createBuffaloLexicon());
+    expect(buffaloParser.countParses(['buffalo', 'buffalo', 'buffalo'])).toBe(19n);
+    expect(buffaloParser.countParses(['buffalo', 'buffalo', 'buffalo', 'buffalo'])).toBe(95n);
+  });
+
+  it('should give each node the features of the readings its tree uses', () => {
+    // In "buffalo buffalo [buffalo buffalo]" the object's head must be plural to agree with its clause
+    const buffaloParser = new EarleyParser(createEnglishGrammar(), createBuffaloLexicon());
+    const tree = buffaloParser.parse(Array<string>(4).fill('buffalo')).trees
+      .find(t => serializeTree(t.root) === '(S (NP (N "buffalo")) (VP (V "buffalo") (NP (NP (N "buffalo")) (RC (S (VP (V "buffalo")))))))')!;
+    const head = tree.root.children[1]!.children[1]!.children[0]!;
+
+    expect(head.features).toEqual({ number: 'plural', person: 3 });
+    expect(head.children[0]!.features).toEqual({ number: 'plural', person: 3 });
+  });
+
+  it('should not let a singular buffalo take the bare verb', () => {
+    // "buffalo buffalo" as noun and verb: only the plural, third-person noun agrees
+    const buffaloParser = new EarleyParser(createEnglishGrammar(), createBuffaloLexicon());
+    const trees = buffaloParser.parse(['buffalo', 'buffalo'], [['N'], ['V']]).trees;
+
+    expect(trees.length).toBeGreaterThan(0);
+    for (const tree of trees) {
+      expect(tree.root.children[0]!.features).toEqual({ number: 'plural', person: 3 });
+    }
+  });
+});
+
+describe('Custom categories', () => {
+  const grammar = new Grammar({ startSymbol: 'CP' })
+    .addRule('CP', ['TP'])
+    .addRule('TP', ['DP', 'V'])
+    .addRule('DP', ['D', 'NUM', 'N'])
+    .addRule('DP', ['DP', 'GEN', 'N']);
+  const lexicon = new Lexicon()
+    .addWord('the', 'D')
+    .addWord('two', 'NUM')
+    .addWord('dogs', 'N')
+    .addWord('owners', 'N')
+    .addWord("'", 'GEN')
+    .addWord('ran', 'V');
+  const parser = new EarleyParser(grammar, lexicon);
+
+  it('should parse from a custom start symbol with custom terminals', () => {
+    const result = parser.parse(['the', 'two', 'dogs', "'", 'owners', 'ran']);
+
+    expect(result.totalCount).toBe(1n);
+    expect(result.trees[0]!.root.symbol).toBe('CP');
+    expect(result.trees[0]!.root.children[0]!.children[0]!.children.map(c => c.symbol))
+      .toEqual(['DP', 'GEN', 'N']);
+  });
+
+  it('should not treat the English start symbol specially', () => {
+    expect(parser.parse(['the', 'two', 'dogs']).trees).toHaveLength(0);
+  });
+});
+
+describe('Error recovery', () => {
+  const parser = new EarleyParser(createEnglishGrammar(), createTestLexicon());
+  const spans = (fragments: ParseTree[]) => fragments.map(f => `${f.root.symbol}${JSON.stringify(f.root.span)}`);
+
+  it('should cover ungrammatical input with the fewest phrases', () => {
+    const { fragments } = parser.recover(['the', 'dog', 'ran', 'the', 'the', 'cat', 'ran']);
+
+    expect(spans(fragments)).toEqual(['S[0,3]', 'DET[3,4]', 'S[4,7]']);
+    expect(fragments[2]!.root.children.map(c => c.symbol)).toEqual(['NP', 'VP']);
+  });
+
+  it('should find where parsing stopped and what was expected', () => {
+    const { diagnostics } = parser.recover(['the', 'the', 'dog', 'ran']);
+
+    expect(diagnostics.furthestPosition).toBe(1);
+    expect(diagnostics.expected.sort()).toEqual(['ADJ', 'N']);
+    expect(diagnostics.unknownWords).toEqual([]);
+  });
+
+  it('should report unknown words and keep them as lone fragments', () => {
+    const { fragments, diagnostics } = parser.recover(['the', 'dog', 'xyz', 'ran']);
+
+    expect(diagnostics.unknownWords).toEqual([{ position: 2, word: 'xyz' }]);
+    expect(diagnostics.furthestPosition).toBe(2);
+    expect(spans(fragments)).toEqual(['NP[0,2]', 'UNK[2,3]', 'VP[3,4]']);
+    expect(fragments[1]!.root.word).toBe('xyz');
+  });
+
+  it('should report an incomplete sentence as stopping at the end', () => {
+    const { fragments, diagnostics } = parser.recover(['the', 'dog', 'chased', 'the']);
+
+    expect(diagnostics.furthestPosition).toBe(4);
+    expect(diagnostics.expected).toEqual(expect.arrayContaining(['N', 'ADJ']));
+    expect(spans(fragments)).toEqual(['S[0,3]', 'DET[3,4]']);
+  });
+
+  it('should return the best parse as the only fragment of a sentence', () => {
+    const input = ['the', 'dog', 'chased', 'the', 'cat'];
+    const { fragments } = parser.recover(input);
+
+    expect(fragments).toHaveLength(1);
+    expect(fragments[0]!.root).toEqual(parser.bestParse(input)!.root);
+  });
+
+  it('should keep fragments within the position constraints', () => {
+    const buffaloParser = new EarleyParser(createEnglishGrammar(), createBuffaloLexicon());
+    const { fragments } = buffaloParser.recover(['buffalo', 'Buffalo'], [['V'], ['PN']]);
+
+    expect(spans(fragments)).toEqual(['VP[0,1]', 'PN[1,2]']);
+  });
+});
+
+describe('Prefix status', () => {
+  const parser = new EarleyParser(createEnglishGrammar(), createTestLexicon());
+
+  it('should list what can start a sentence', () => {
+    const status = parser.prefixStatus([]);
+
+    expect(status.expected).toEqual(expect.arrayContaining(['DET', 'N']));
+    expect(status.complete).toBe(false);
+    expect(status.completable).toBe(true);
+  });
+
+  it('should expect a noun or adjective after a determiner', () => {
+    const status = parser.prefixStatus(['the']);
+
+    expect(status.expected.sort()).toEqual(['ADJ', 'N']);
+    expect(status).toMatchObject({ complete: false, completable: true });
+  });
+
+  it('should mark a prefix no words can rescue', () => {
+    expect(parser.prefixStatus(['the', 'the'])).toEqual({ expected: [], complete: false, completable: false });
+  });
+
+  it('should only expect parts of speech the lexicon has', () => {
+    const buffaloParser = new EarleyParser(createEnglishGrammar(), createBuffaloLexicon());
+
+    expect(buffaloParser.prefixStatus([]).expected.sort()).toEqual(['N', 'PN', 'V']);
+  });
+
+  it('should respect constraints on the prefix', () => {
+    const buffaloParser = new EarleyParser(createEnglishGrammar(), createBuffaloLexicon());
+    const status = buffaloParser.prefixStatus(['buffalo', 'buffalo'], [['V'], ['V']]);
+
+    expect(status).toEqual({ expected: [], complete: false, completable: false });
+  });
+});
+
+describe('Parse budgets', () => {
+  const grammar = createEnglishGrammar();
+  const lexicon = createBuffaloLexicon();
+  const input = Array<string>(5).fill('buffalo');
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should not report a budget when none runs out', () => {
+    const result = new EarleyParser(grammar, lexicon).parse(['buffalo', 'buffalo']);
+
+    expect(result.budgetHit).toBeUndefined();
+    expect(result.errors).toBeUndefined();
+  });
+
+  it('should take maxTrees from the constructor, overridden per parse', () => {
+    const parser = new EarleyParser(grammar, lexicon, { maxTrees: 5 });
+
+    const result = parser.parse(input);
+    expect(result.trees).toHaveLength(5);
+    expect(result.budgetHit).toBe('maxTrees');
+    expect(result.errors).toBeUndefined();
+
+    expect(parser.parse(input, undefined, { maxTrees: 2 }).trees).toHaveLength(2);
+  });
+
+  it('should stop a chart that grows past maxChartItems', () => {
+    const parser = new EarleyParser(grammar, lexicon);
+    const result = parser.parse(input, undefined, { maxChartItems: 50 });
+
+    expect(result.trees).toEqual([]);
+    expect(result.totalCount).toBe(0n);
+    expect(result.budgetHit).toBe('maxChartItems');
+    expect(result.errors).toEqual([{ kind: 'ChartLimit', limit: 50 }]);
+  });
+
+  it('should stop when the time is up', () => {
+    // The clock reads 1000 when the parse starts and 2000 from then on
+    vi.spyOn(Date, 'now').mockReturnValueOnce(1000).mockReturnValue(2000);
+    const result = new EarleyParser(grammar, lexicon).parse(input, undefined, { timeoutMs: 500 });
+
+    expect(result.budgetHit).toBe('timeoutMs');
+    expect(result.errors).toEqual([{ kind: 'Timeout', limitMs: 500 }]);
+  });
+
+  it('should stop when the signal is aborted', () => {
+    const controller = new AbortController();
+    controller.abort();
+    const result = new EarleyParser(grammar, lexicon).parse(input, undefined, { signal: controller.signal });
+
+    expect(result.trees).toEqual([]);
+    expect(result.budgetHit).toBe('signal');
+    expect(result.errors).toEqual([{ kind: 'Aborted' }]);
+  });
+
+  it('should keep the trees found and the exact count when time runs out while taking trees', () => {
+    const parser = new EarleyParser(grammar, lexicon);
+    // Reads for building the chart and taking the first tree
+    const reads = countDateCalls(() => parser.parse(input, undefined, { maxTrees: 1, timeoutMs: 1e9 }));
+
+    let calls = 0;
+    vi.spyOn(Date, 'now').mockImplementation(() => (++calls <= reads ? 0 : 2e9));
+    const result = parser.parse(input, undefined, { timeoutMs: 1e9 });
+
+    expect(result.trees).toHaveLength(1);
+    expect(result.totalCount).toBe(parser.countParses(input));
+    expect(result.truncated).toBe(true);
+    expect(result.budgetHit).toBe('timeoutMs');
+    expect(result.errors).toEqual([{ kind: 'Timeout', limitMs: 1e9 }]);
+  });
+
+  it('should throw from forest, count and best parse when the chart runs out', () => {
+    const parser = new EarleyParser(grammar, lexicon);
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(() => parser.parseForest(input, undefined, { maxChartItems: 50 })).toThrow(BudgetExceeded);
+    expect(() => parser.countParses(input, undefined, { signal: controller.signal })).toThrow(BudgetExceeded);
+    expect(() => new EarleyParser(grammar, lexicon, { maxChartItems: 50 }).bestParse(input)).toThrow('maxChartItems');
+    expect(parser.countParses(input, undefined, { maxChartItems: 1e6, maxTrees: 1 })).toBe(parser.countParses(input));
+  });
+
+  it('should stop iterating trees once the signal is aborted', () => {
+    const controller = new AbortController();
+    const trees = new EarleyParser(grammar, lexicon).iterateTrees(input, undefined, { signal: controller.signal });
+
+    expect(trees.next().done).toBe(false);
+    controller.abort();
+    expect(() => trees.next()).toThrow(BudgetExceeded);
+  });
+});
+
+/** How many times a call reads the clock */
+function countDateCalls(run: () => void): number {
+  const spy = vi.spyOn(Date, 'now');
+  run();
+  const count = spy.mock.calls.length;
+  spy.mockRestore();
+  return count;
+}
+
+describe('Lazy tree iteration', () => {
+  const parser = new EarleyParser(createEnglishGrammar(), createBuffaloLexicon());
+
+  it('should yield the same trees as parse, in the same order', () => {
+    const input = ['buffalo', 'buffalo', 'buffalo', 'buffalo'];
+
+    expect([...parser.iterateTrees(input)]).toEqual(parser.parse(input).trees);
+  });
+
+  it('should go past the tree limit on demand', () => {
+    const input = Array<string>(8).fill('buffalo');
+    const iterator = parser.iterateTrees(input);
+
+    const trees: ParseTree[] = [];
+    for (let i = 0; i < 150; i++) trees.push(iterator.next().value!);
+
+    expect(trees.slice(0, 100)).toEqual(parser.parse(input).trees);
+    expect(new Set(trees.map(t => serializeTree(t.root))).size).toBe(150);
+  });
+
+  it('should yield nothing for empty or unparseable input', () => {
+    const testParser = new EarleyParser(createEnglishGrammar(), createTestLexicon());
+
+    expect([...testParser.iterateTrees([])]).toEqual([]);
+    expect([...testParser.iterateTrees(['the', 'the'])]).toEqual([]);
+  });
+});
+
+describe('Nullable and cyclic rules', () => {
+  const lexicon = new Lexicon()
+    .addWord('x', 'X')
+    .addWord('y', 'Y')
+    .addWord('z', 'X')
+    .addWord('z', 'Y');
+
+  it('should parse through empty rules wherever they occur', () => {
+    const grammar = new Grammar()
+      .addRule('S', ['A', 'X', 'A'])
+      .addRule('A', [])
+      .addRule('A', ['Y']);
+    const parser = new EarleyParser(grammar, lexicon);
+
+    expect(parser.countParses(['x'])).toBe(1n);
+    expect(parser.countParses(['y', 'x'])).toBe(1n);
+    expect(parser.countParses(['x', 'y'])).toBe(1n);
+    expect(parser.countParses(['y', 'x', 'y'])).toBe(1n);
+
+    const tree = parser.parse(['x']).trees[0]!;
+    expect(tree.root.children.map(c => [c.symbol, c.span, c.children.length])).toEqual([
+      ['A', [0, 0], 0],
+      ['X', [0, 1], 0],
+      ['A', [1, 1], 0],
+    ]);
+  });
+
+  it('should find symbols that are nullable through other nullable symbols', () => {
+    // B is only known to be nullable after C completes, once B has been predicted
+    const grammar = new Grammar()
+      .addRule('S', ['B', 'B', 'X'])
+      .addRule('B', ['C', 'C'])
+      .addRule('C', []);
+    const parser = new EarleyParser(grammar, lexicon);
+
+    expect(parser.countParses(['x'])).toBe(1n);
+  });
+
+  it('should count each tree of a unit cycle once, without looping', () => {
+    const grammar = new Grammar()
+      .addRule('S', ['NP'])
+      .addRule('NP', ['S'])
+      .addRule('NP', ['X']);
+    const parser = new EarleyParser(grammar, lexicon);
+
+    // S → NP → X, with no symbol repeated over the same words
+    expect(parser.countParses(['x'])).toBe(1n);
+    expect(parser.parse(['x']).trees).toHaveLength(1);
+  });
+
+  it('should match a brute-force count on random small grammars', () => {
+    const random = createRandom(2024);
+    const inputs = allInputs(['x', 'y', 'z'], 3);
+
+    for (let g = 0; g < 40; g++) {
+      const grammar = randomGrammar(random);
+      const parser = new EarleyParser(grammar, lexicon);
+
+      for (const input of inputs) {
+        const expected = bruteForceCount(grammar, lexicon, input);
+        const forest = parser.parseForest(input);
+        expect({ grammar: grammar.toText(), input, count: forest.count() })
+          .toEqual({ grammar: grammar.toText(), input, count: expected });
+
+        if (expected <= 200n) {
+          const trees = [...forest.trees()].map(t => serializeTree(t.root));
+          expect(new Set(trees).size).toBe(Number(expected));
+          expect([...forest.rankedTrees()]).toHaveLength(Number(expected));
+        }
+      }
+    }
+  });
+});
+
+/** A grammar over S, A, B and the tags X, Y with empty and unit rules likely */
+function randomGrammar(random: () => number): Grammar {
+  const symbols = ['S', 'A', 'B', 'X', 'Y'];
+  const grammar = new Grammar({ terminals: ['X', 'Y'] });
+  const seen = new Set<string>();
+
+  for (const lhs of ['S', 'A', 'B']) {
+    const ruleCount = 1 + Math.floor(random() * 3);
+    for (let r = 0; r < ruleCount; r++) {
+      const length = [0, 1, 1, 2, 2, 3][Math.floor(random() * 6)]!;
+      const rhs = Array.from({ length }, () => symbols[Math.floor(random() * symbols.length)]!);
+      const key = `${lhs} -> ${rhs.join(' ')}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      grammar.addRule(lhs, rhs);
+    }
+  }
+  return grammar;
+}
+
+/** Every sequence of 1 to maxLength words */
+function allInputs(words: string[], maxLength: number): string[][] {
+  const inputs: string[][] = [];
+  let layer: string[][] = [[]];
+  for (let length = 1; length <= maxLength; length++) {
+    layer = layer.flatMap(prefix => words.map(word => [...prefix, word]));
+    inputs.push(...layer);
+  }
+  return inputs;
+}
+
+/**
+ * Count parse trees by trying every rule and split point, where no symbol
+ * may appear twice over the same words on one path from the root.
+ */
+function bruteForceCount(grammar: Grammar, lexicon: Lexicon, input: string[]): bigint {
+  const memo = new Map<string, bigint>();
+
+  const countSymbol = (symbol: string, start: number, end: number, path: string[]): bigint => {
+    if (!grammar.isNonTerminal(symbol)) {
+      return end === start + 1 && lexicon.lookup(input[start]!).some(e => e.pos === symbol) ? 1n : 0n;
+    }
+    const id = `${symbol}${start}-${end}`;
+    if (path.includes(id)) return 0n;
+
+    const key = `${id}|${[...path].sort().join(' ')}`;
+    const cached = memo.get(key);
+    if (cached !== undefined) return cached;
+
+    let total = 0n;
+    for (const rule of grammar.getRulesFor(symbol)) {
+      total += countSequence(rule.rhs, 0, start, end, [...path, id]);
+    }
+    memo.set(key, total);
+    return total;
+  };
+
+  const countSequence = (rhs: string[], i: number, start: number, end: number, path: string[]): bigint => {
+    if (i === rhs.length) return start === end ? 1n : 0n;
+    let total = 0n;
+    for (let mid = start; mid <= end; mid++) {
+      const first = countSymbol(rhs[i]!, start, mid, path);
+      if (first > 0n) total += first * countSequence(rhs, i + 1, mid, end, path);
+    }
+    return total;
+  };
+
+  return countSymbol(grammar.startSymbol, 0, input.length, []);
+}
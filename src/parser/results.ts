@@ -0,0 +1,99 @@
+import type { ParseBudget, ParseDiagnostics, ParseError, ParseResult, ParseTree } from '../types.js';
+import type { Budget } from './budget.js';
+import type { ParseForest } from './forest.js';
+import { toBracketed } from './bracketed.js';
+
+/**
+ * Turn a parse forest into a parse result: the best unique trees, the exact
+ * count, and what went wrong if anything did. `diagnose` is only called
+ * when there is no parse.
+ */
+export function forestResult(forest: ParseForest, budget: Budget, diagnose: () => ParseDiagnostics): ParseResult {
+  const input = forest.input;
+  if (input.length === 0) {
+    return { input, trees: [], totalCount: 0n, truncated: false, errors: [{ kind: 'EmptyInput' }] };
+  }
+
+  const totalCount = forest.count();
+  const { trees, budgetHit: stopped } = takeUniqueTrees(forest.rankedTrees(), budget, totalCount);
+  const truncated = BigInt(trees.length) < totalCount;
+  const budgetHit = stopped ?? (truncated ? 'maxTrees' : undefined);
+
+  const errors: ParseError[] = [];
+  if (totalCount === 0n) {
+    const { furthestPosition, expected, unknownWords } = diagnose();
+    errors.push(...unknownWords.map(({ position, word }): ParseError => ({ kind: 'UnknownWord', position, word })));
+    errors.push(furthestPosition === input.length
+      ? { kind: 'NoParse', furthestPosition, expected, atEnd: true }
+      : { kind: 'NoParse', furthestPosition, expected });
+  }
+  // Returning only maxTrees trees is not an error: `truncated` and `budgetHit` say so
+  if (stopped) {
+    errors.push(budget.errorFor(stopped));
+  }
+
+  const result: ParseResult = {
+    input,
+    trees,
+    totalCount,
+    truncated,
+    errors: errors.length > 0 ? errors : undefined,
+  };
+  if (budgetHit) result.budgetHit = budgetHit;
+  return result;
+}
+
+/**
+ * The result of a parse whose chart was cut short by a budget: no trees.
+ */
+export function stoppedResult(input: string[], budget: Budget, budgetHit: Exclude<ParseBudget, 'maxTrees'>): ParseResult {
+  return {
+    input,
+    trees: [],
+    totalCount: 0n,
+    truncated: false,
+    budgetHit,
+    errors: [budget.errorFor(budgetHit)],
+  };
+}
+
+/**
+ * Drop trees whose structure has already been seen, as they are pulled.
+ * Since all words are "buffalo", different derivations can look identical;
+ * trees are compared by their bracketed notation.
+ */
+export function* uniqueTrees(trees: Iterable<ParseTree>): Generator<ParseTree> {
+  const seen = new Set<string>();
+  for (const tree of trees) {
+    const key = toBracketed(tree);
+    if (!seen.has(key)) {
+      seen.add(key);
+      yield tree;
+    }
+  }
+}
+
+/**
+ * Take up to maxTrees trees, dropping duplicates (same structure).
+ * Stops early, saying which budget ran out, if time is up or the parse is aborted.
+ */
+function takeUniqueTrees(
+  trees: Iterable<ParseTree>,
+  budget: Budget,
+  totalCount: bigint
+): { trees: ParseTree[]; budgetHit?: Exclude<ParseBudget, 'maxTrees'> } {
+  const unique: ParseTree[] = [];
+  const iterator = uniqueTrees(trees);
+
+  while (unique.length < budget.maxTrees) {
+    const exceeded = budget.exceeded();
+    if (exceeded) return { trees: unique, budgetHit: exceeded };
+
+    const next = iterator.next();
+    if (next.done) break;
+    unique.push(next.value);
+    budget.onTree?.(unique.length, totalCount);
+  }
+
+  return { trees: unique };
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { EarleyParser } from './earley.js';
+import { createEnglishGrammar } from './grammar.js';
+import { createBuffaloLexicon, createTestLexicon } from './lexicon.js';
+import type { ParseResult, PositionConstraint } from '../types.js';
+
+/** The parts of a result that should not depend on how the chart was built */
+function summary(result: ParseResult) {
+  return {
+    trees: result.trees.map(tree => JSON.stringify(tree.root)),
+    totalCount: result.totalCount,
+    errors: result.errors,
+  };
+}
+
+describe('ParseSession', () => {
+  const grammar = createEnglishGrammar();
+
+  it('should match a fresh parse after each word is pushed', () => {
+    const parser = new EarleyParser(grammar, createTestLexicon());
+    const session = parser.begin();
+    const words = ['the', 'big', 'dog', 'chased', 'a', 'cat'];
+
+    for (const [i, word] of words.entries()) {
+      session.push(word);
+      expect(summary(session.results())).toEqual(summary(parser.parse(words.slice(0, i + 1))));
+    }
+  });
+
+  it('should count buffalo parses as words are added', () => {
+    const parser = new EarleyParser(grammar, createBuffaloLexicon());
+    const session = parser.begin();
+
+    const counts: bigint[] = [];
+    for (let n = 1; n <= 4; n++) {
+      counts.push(session.push('buffalo').results().totalCount);
+    }
+    expect(counts.slice(2)).toEqual([19n, 95n]);
+    expect(session.forest().count()).toBe(95n);
+  });
+
+  it('should go back to earlier results when words are popped', () => {
+    const parser = new EarleyParser(grammar, createTestLexicon());
+    const session = parser.begin().push('the').push('dog').push('ran');
+    const before = summary(session.results());
+
+    session.push('the');
+    expect(session.results().trees).toHaveLength(0);
+
+    expect(session.pop()).toBe('the');
+    expect(session.words).toEqual(['the', 'dog', 'ran']);
+    expect(summary(session.results())).toEqual(before);
+  });
+
+  it('should reparse only from the first changed word', () => {
+    const parser = new EarleyParser(grammar, createTestLexicon());
+    const session = parser.begin();
+    session.update(['the', 'dog', 'chased', 'the', 'cat']);
+
+    session.update(['the', 'dog', 'chased', 'a', 'bird']);
+    expect(summary(session.results())).toEqual(summary(parser.parse(['the', 'dog', 'chased', 'a', 'bird'])));
+
+    session.update(['the', 'cat', 'ran']);
+    expect(session.length).toBe(3);
+    expect(summary(session.results())).toEqual(summary(parser.parse(['the', 'cat', 'ran'])));
+  });
+
+  it('should treat a changed constraint as an edit', () => {
+    const parser = new EarleyParser(grammar, createBuffaloLexicon());
+    const words = ['buffalo', 'buffalo', 'buffalo'];
+    const session = parser.begin().update(words);
+
+    const constraints: PositionConstraint[] = [['PN'], 'any', 'any'];
+    session.update(words, constraints);
+    expect(session.results().totalCount).toBe(parser.countParses(words, constraints));
+    expect(session.results().totalCount).toBeLessThan(19n);
+  });
+
+  it('should reuse its results until the sentence changes', () => {
+    const parser = new EarleyParser(grammar, createTestLexicon());
+    const session = parser.begin().update(['the', 'dog', 'ran']);
+
+    const result = session.results();
+    expect(session.results()).toBe(result);
+
+    session.update(['the', 'dog', 'ran']);
+    expect(session.results()).toBe(result);
+
+    session.update(['the', 'dog']);
+    expect(session.results()).not.toBe(result);
+  });
+
+  it('should report empty input like parse', () => {
+    const parser = new EarleyParser(grammar, createTestLexicon());
+    const session = parser.begin();
+
+    expect(session.pop()).toBeUndefined();
+    expect(session.results().errors).toEqual([{ kind: 'EmptyInput' }]);
+  });
+
+  it('should report what may follow the current words', () => {
+    const parser = new EarleyParser(grammar, createTestLexicon());
+    const session = parser.begin().update(['the', 'dog']);
+
+    expect(session.status()).toEqual(parser.prefixStatus(['the', 'dog']));
+    expect(session.push('the').push('the').status().completable).toBe(false);
+    session.pop();
+    expect(session.status().expected.sort()).toEqual(['ADJ', 'N']);
+  });
+
+  it('should page through trees lazily and take options for results', () => {
+    const parser = new EarleyParser(grammar, createBuffaloLexicon());
+    const session = parser.begin().update(['buffalo', 'buffalo', 'buffalo', 'buffalo']);
+
+    expect([...session.trees()]).toEqual(session.results().trees);
+
+    const first = session.results({ maxTrees: 1 });
+    expect(first.trees).toEqual(session.results().trees.slice(0, 1));
+    expect(first.totalCount).toBe(95n);
+    expect(session.results({ maxTrees: 1 })).not.toBe(first);
+  });
+});
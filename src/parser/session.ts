@@ -0,0 +1,141 @@
+import type { ParseOptions, ParseResult, ParseTree, PositionConstraint, PrefixStatus } from '../types.js';
+import type { Column } from './earley.js';
+import type { ParseForest } from './forest.js';
+
+/**
+ * The chart operations a session borrows from its parser.
+ */
+export interface SessionChart {
+  /** Create column 0 */
+  start(): Column;
+  /** Scan a word into a new column at the end of the chart */
+  extend(chart: Column[], word: string, constraint: PositionConstraint | undefined): Column;
+  forest(chart: Column[], input: string[]): ParseForest;
+  result(chart: Column[], input: string[], options?: ParseOptions): ParseResult;
+  trees(chart: Column[], input: string[]): Generator<ParseTree>;
+  status(chart: Column[]): PrefixStatus;
+}
+
+/**
+ * An incremental parse of a sentence that is edited word by word, as in the
+ * sentence bar. Column i of the chart depends only on the words before it,
+ * so removing words just drops columns, and adding a word computes one.
+ *
+ * @example
+ * const session = parser.begin();
+ * session.push('buffalo').push('buffalo');
+ * session.results().totalCount; // parses of "buffalo buffalo"
+ * session.update(['buffalo', 'buffalo', 'buffalo']); // reuses both columns
+ */
+export class ParseSession {
+  private chart: Column[];
+  private input: string[] = [];
+  private constraints: (PositionConstraint | undefined)[] = [];
+  private cached: ParseResult | null = null;
+
+  constructor(private ops: SessionChart) {
+    this.chart = [ops.start()];
+  }
+
+  /** The words parsed so far */
+  get words(): readonly string[] {
+    return this.input;
+  }
+
+  get length(): number {
+    return this.input.length;
+  }
+
+  /**
+   * Add a word at the end of the sentence.
+   */
+  push(word: string, constraint?: PositionConstraint): this {
+    this.ops.extend(this.chart, word, constraint);
+    this.input.push(word);
+    this.constraints.push(constraint);
+    this.cached = null;
+    return this;
+  }
+
+  /**
+   * Remove the last word, returning it (undefined if the sentence is empty).
+   */
+  pop(): string | undefined {
+    const word = this.input[this.input.length - 1];
+    this.truncate(this.input.length - 1);
+    return word;
+  }
+
+  /**
+   * Keep only the first `length` words.
+   */
+  truncate(length: number): this {
+    if (length >= 0 && length < this.input.length) {
+      this.chart.length = length + 1;
+      this.input.length = length;
+      this.constraints.length = length;
+      this.cached = null;
+    }
+    return this;
+  }
+
+  /**
+   * Make the session parse `words`, keeping the columns for the longest
+   * prefix that is unchanged (same words with the same constraints).
+   */
+  update(words: string[], constraints?: PositionConstraint[]): this {
+    let same = 0;
+    while (
+      same < words.length &&
+      same < this.input.length &&
+      words[same] === this.input[same] &&
+      sameConstraint(constraints?.[same], this.constraints[same])
+    ) {
+      same++;
+    }
+
+    this.truncate(same);
+    for (let pos = same; pos < words.length; pos++) {
+      this.push(words[pos]!, constraints?.[pos]);
+    }
+    return this;
+  }
+
+  /**
+   * Parse trees for the current sentence, computed once per edit.
+   * Options (as for parse) bypass the cache.
+   */
+  results(options?: ParseOptions): ParseResult {
+    if (options) return this.ops.result(this.chart, [...this.input], options);
+    this.cached ??= this.ops.result(this.chart, [...this.input]);
+    return this.cached;
+  }
+
+  /**
+   * Lazily yield the distinct trees of the current sentence, most probable
+   * first. Editing the session does not affect a generator already started.
+   */
+  trees(): Generator<ParseTree> {
+    return this.ops.trees(this.chart, [...this.input]);
+  }
+
+  /**
+   * What may follow the current words, read off the last chart column.
+   */
+  status(): PrefixStatus {
+    return this.ops.status(this.chart);
+  }
+
+  /**
+   * The shared parse forest for the current sentence.
+   */
+  forest(): ParseForest {
+    return this.ops.forest(this.chart, [...this.input]);
+  }
+}
+
+function sameConstraint(a: PositionConstraint | undefined, b: PositionConstraint | undefined): boolean {
+  if (a === b) return true;
+  if (!Array.isArray(a) || !Array.isArray(b)) return false;
+  return a.length === b.length && a.every((pos, i) => pos === b[i]);
+}
@@ -0,0 +1,55 @@
+import type { ParseTree } from '../types.js';
+import { readTreebank } from './bracketed.js';
+
+/**
+ * Gold-standard trees for evaluating the English grammar, in bracketed
+ * notation. Each is the intended reading of its sentence, not necessarily
+ * the grammar's most probable one.
+ */
+
+const BUFFALO_TREEBANK = `
+(S (NP (N buffalo)) (VP (V buffalo)))
+(S (NP (PN Buffalo) (N buffalo)) (VP (V buffalo)))
+(S (NP (N buffalo)) (VP (V buffalo) (NP (N buffalo))))
+(S (NP (PN Buffalo) (N buffalo)) (VP (V buffalo) (NP (N buffalo))))
+(S (NP (NP (N buffalo)) (RC (NP (N buffalo)) (VP (V buffalo)))) (VP (V buffalo)))
+(S (NP (PN Buffalo) (N buffalo)) (VP (V buffalo) (NP (PN Buffalo) (N buffalo))))
+(S (NP (NP (N buffalo)) (RC (NP (N buffalo)) (VP (V buffalo)))) (VP (V buffalo) (NP (N buffalo))))
+(S
+  (NP (NP (PN Buffalo) (N buffalo))
+      (RC (NP (PN Buffalo) (N buffalo)) (VP (V buffalo))))
+  (VP (V buffalo) (NP (PN Buffalo) (N buffalo))))
+`;
+
+const TEST_TREEBANK = `
+(S (NP (DET the) (N dog)) (VP (V runs)))
+(S (NP (DET the) (N dog)) (VP (V chased) (NP (DET the) (N cat))))
+(S (NP (DET the) (ADJ big) (N dog)) (VP (V chased) (NP (DET a) (ADJ small) (N cat))))
+(S (NP (DET the) (N cat)) (VP (V ran) (ADV away)))
+(S (NP (NP (N dogs)) (CONJ and) (NP (N cats))) (VP (V eat) (NP (N fish))))
+(S
+  (NP (DET the) (N woman))
+  (VP (V saw) (NP (DET the) (N bird)) (PP (PREP with) (NP (DET the) (N man)))))
+(S
+  (NP (NP (DET the) (N dogs)) (RC (REL that) (VP (V chase) (NP (N cats)))))
+  (VP (V run)))
+(S
+  (NP (NP (DET the) (N man)) (RC (REL who) (S (NP (DET the) (N dog)) (VP (V bit)))))
+  (VP (V ran)))
+`;
+
+/**
+ * Gold trees for classic Buffalo sentences, up to the famous eight words.
+ * Parse them with the Buffalo lexicon.
+ */
+export function createBuffaloTreebank(): ParseTree[] {
+  return readTreebank(BUFFALO_TREEBANK);
+}
+
+/**
+ * Gold trees for sentences over the test lexicon: agreement, modifiers,
+ * coordination, attachment and relative clauses.
+ */
+export function createTestTreebank(): ParseTree[] {
+  return readTreebank(TEST_TREEBANK);
+}
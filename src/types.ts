@@ -2,7 +2,10 @@
  * Core type definitions for BuffaloBuffalo parser
  */
 
-/** Parts of speech supported by the parser */
+/**
+ * Parts of speech (grammar terminals). The built-in tags are listed for
+ * editor completion; grammars may use any other category name too.
+ */
 export type PartOfSpeech =
   | 'N'      // Noun
   | 'V'      // Verb
@@ -13,7 +16,13 @@ export type PartOfSpeech =
   | 'PREP'   // Preposition
   | 'CONJ'   // Conjunction
   | 'REL'    // Relative pronoun (that, which, who)
-  | 'AUX';   // Auxiliary verb
+  | 'AUX'    // Auxiliary verb
+  | (string & {});
+
+/** The built-in parts of speech, for validating tags at runtime */
+export const PARTS_OF_SPEECH: readonly PartOfSpeech[] = [
+  'N', 'V', 'PN', 'DET', 'ADJ', 'ADV', 'PREP', 'CONJ', 'REL', 'AUX',
+];
 
 /** Grammatical features for agreement and inflection */
 export interface GrammaticalFeatures {
@@ -23,6 +32,22 @@ export interface GrammaticalFeatures {
   case?: 'nominative' | 'accusative' | 'genitive';
 }
 
+/** Name of a grammatical feature */
+export type FeatureName = keyof GrammaticalFeatures;
+
+/** Every feature name, for validating feature annotations at runtime */
+export const FEATURE_NAMES: readonly FeatureName[] = ['number', 'person', 'tense', 'case'];
+
+/**
+ * A feature equation on a grammar rule: the listed symbols must agree on
+ * the listed features. Position 0 is the LHS, 1..n are the RHS symbols,
+ * so including 0 passes the agreed values up to the parent.
+ */
+export interface FeatureEquation {
+  features: FeatureName[];
+  positions: number[];
+}
+
 /** A word entry in the lexicon */
 export interface LexiconEntry {
   word: string;
@@ -31,7 +56,10 @@ export interface LexiconEntry {
   features?: GrammaticalFeatures;
 }
 
-/** Non-terminal symbols in the grammar */
+/**
+ * Non-terminal symbols (phrase categories). As with PartOfSpeech, the
+ * built-in categories are listed but grammars may define their own.
+ */
 export type NonTerminal =
   | 'S'      // Sentence
   | 'NP'     // Noun Phrase
@@ -39,7 +67,11 @@ export type NonTerminal =
   | 'PP'     // Prepositional Phrase
   | 'ADJP'   // Adjective Phrase
   | 'ADVP'   // Adverb Phrase
-  | 'RC';    // Relative Clause
+  | 'RC'     // Relative Clause
+  | (string & {});
+
+/** The built-in non-terminals, used by the English grammar */
+export const NON_TERMINALS: readonly NonTerminal[] = ['S', 'NP', 'VP', 'PP', 'ADJP', 'ADVP', 'RC'];
 
 /** A symbol in the grammar (terminal or non-terminal) */
 export type GrammarSymbol = PartOfSpeech | NonTerminal;
@@ -49,6 +81,8 @@ export interface GrammarRule {
   lhs: NonTerminal;
   rhs: GrammarSymbol[];
   probability?: number;
+  /** Agreement constraints checked by unification while parsing */
+  features?: FeatureEquation[];
 }
 
 /** A node in the parse tree */
@@ -61,6 +95,8 @@ export interface ParseNode {
   entry?: LexiconEntry;
   /** Span in the original sentence [start, end) */
   span: [number, number];
+  /** Features resolved by unification (lexical features for terminals) */
+  features?: GrammaticalFeatures;
 }
 
 /** A complete parse tree */
@@ -70,9 +106,160 @@ export interface ParseTree {
   probability?: number;
 }
 
+/** One word of a dependency graph, with its head and relation (as in CoNLL-U) */
+export interface DependencyToken {
+  /** Position in the sentence, from 1 */
+  id: number;
+  word: string;
+  lemma?: string;
+  pos: PartOfSpeech;
+  features?: GrammaticalFeatures;
+  /** Id of the head word, 0 for the root */
+  head: number;
+  /** Universal Dependencies relation to the head, e.g. nsubj or acl:relcl */
+  relation: string;
+}
+
+/** A sentence as a dependency graph: every word depends on one head */
+export interface DependencyGraph {
+  sentence: string[];
+  tokens: DependencyToken[];
+}
+
+/** Parts of speech allowed at one input position ('any' admits every lexicon entry) */
+export type PositionConstraint = PartOfSpeech[] | 'any';
+
+/**
+ * Limits on the work one parse may do. When one runs out, parsing stops and
+ * the result says which (`budgetHit`) and keeps whatever was found.
+ */
+export interface ParseOptions {
+  /** Most trees to return (default 100); more are still counted */
+  maxTrees?: number;
+  /** Most Earley items the chart may hold */
+  maxChartItems?: number;
+  /** Milliseconds the parse may run */
+  timeoutMs?: number;
+  /** Stops the parse once aborted; checked as each chart item is added */
+  signal?: AbortSignal;
+  /** Called as each distinct tree is found, with the number found so far */
+  onTree?: (found: number, totalCount: bigint) => void;
+}
+
+/** A ParseOptions limit */
+export type ParseBudget = 'maxTrees' | 'maxChartItems' | 'timeoutMs' | 'signal';
+
 /** Result of parsing - may have multiple valid trees */
 export interface ParseResult {
   input: string[];
   trees: ParseTree[];
-  errors?: string[];
+  /**
+   * Exact number of distinct parses, even when `trees` was cut short.
+   * 0 if the chart was never finished.
+   */
+  totalCount: bigint;
+  /** Whether `trees` holds fewer trees than `totalCount` */
+  truncated: boolean;
+  /** The budget that stopped parsing early, if one did */
+  budgetHit?: ParseBudget;
+  /** What went wrong, if anything. Stopping at `maxTrees` is not an error */
+  errors?: ParseError[];
+}
+
+/** The input had no words */
+export interface EmptyInputError {
+  kind: 'EmptyInput';
+}
+
+/** A word is not in the lexicon */
+export interface UnknownWordError {
+  kind: 'UnknownWord';
+  position: number;
+  word: string;
+}
+
+/** No parse covers the input; parsing could not continue past furthestPosition */
+export interface NoParseError {
+  kind: 'NoParse';
+  furthestPosition: number;
+  /** Parts of speech that would have let parsing continue there */
+  expected: PartOfSpeech[];
+  /** Set when every word was read: the sentence is incomplete or its words do not agree */
+  atEnd?: true;
+}
+
+/** Parsing was stopped after `limitMs` milliseconds */
+export interface TimeoutError {
+  kind: 'Timeout';
+  limitMs: number;
+}
+
+/** The chart grew past `limit` items before it was finished */
+export interface ChartLimitError {
+  kind: 'ChartLimit';
+  limit: number;
+}
+
+/** Parsing was stopped by an AbortSignal */
+export interface AbortedError {
+  kind: 'Aborted';
+}
+
+/** Why a parse failed or is incomplete, discriminated by `kind` */
+export type ParseError =
+  | EmptyInputError
+  | UnknownWordError
+  | NoParseError
+  | TimeoutError
+  | ChartLimitError
+  | AbortedError;
+
+/** A word that is not in the lexicon */
+export interface UnknownWord {
+  position: number;
+  word: string;
+}
+
+/**
+ * A parsing algorithm over a grammar and lexicon. EarleyParser and CYKParser
+ * both implement it and give the same trees, so either can be swapped in,
+ * except that CYKParser refuses grammars with empty rules (A → ε).
+ * Options limit every method; where parse() reports a budget that ran out
+ * in its result, the others throw BudgetExceeded.
+ */
+export interface Parser {
+  parse(input: string[], constraints?: PositionConstraint[], options?: ParseOptions): ParseResult;
+  /** The single most probable parse, or null if there is none */
+  bestParse(input: string[], constraints?: PositionConstraint[], options?: ParseOptions): ParseTree | null;
+  /** The exact number of distinct parses */
+  countParses(input: string[], constraints?: PositionConstraint[], options?: ParseOptions): bigint;
+  /** The distinct parses, most probable first, built one at a time */
+  iterateTrees(input: string[], constraints?: PositionConstraint[], options?: ParseOptions): Generator<ParseTree>;
+}
+
+/** Where and why parsing an input failed */
+export interface ParseDiagnostics {
+  /** First position whose word no item could scan (input length if every word was scanned) */
+  furthestPosition: number;
+  /** Parts of speech the grammar expected at furthestPosition */
+  expected: PartOfSpeech[];
+  unknownWords: UnknownWord[];
+}
+
+/** What may follow a sentence prefix */
+export interface PrefixStatus {
+  /** Parts of speech the next word may have */
+  expected: PartOfSpeech[];
+  /** Whether the prefix is already a full sentence */
+  complete: boolean;
+  /** Whether the prefix is, or can still be extended to, a full sentence */
+  completable: boolean;
+}
+
+/** Best-effort analysis of an input, whether or not it parses */
+export interface PartialParse {
+  input: string[];
+  /** Fewest well-formed constituents covering the input, left to right */
+  fragments: ParseTree[];
+  diagnostics: ParseDiagnostics;
 }
@@ -1,4 +1,4 @@
-export { calculateLayout, calculateReedKelloggLayout } from './layout.js';
-export type { LayoutNode, LayoutConfig } from './layout.js';
+export { calculateLayout, calculateReedKelloggLayout, calculateArcLayout } from './layout.js';
+export type { LayoutNode, LayoutConfig, DiagramLine } from './layout.js';
 export { renderTreeToSVG, renderTreeToElement, renderTreeGallery } from './renderer.js';
 export type { RenderConfig } from './renderer.js';
@@ -1,4 +1,5 @@
-import type { ParseNode, ParseTree } from '../types.js';
+import type { DependencyGraph, DependencyToken, ParseNode, ParseTree } from '../types.js';
+import { toDependencies } from '../parser/dependencies.js';
 
 /**
  * Layout node with calculated positions for rendering.
@@ -18,6 +19,11 @@ export interface LayoutNode {
   position?: number;
   // Part of speech for color coding
   pos?: string;
+  // For arc style: relation to the head word, and how high the arc from it rises
+  relation?: string;
+  arcHeight?: number;
+  // For Reed-Kellogg style: degrees a word on a slanted line is turned by
+  angle?: number;
 }
 
 /**
@@ -160,82 +166,406 @@ function calculateBounds(node: LayoutNode): { maxX: number; maxY: number } {
 }
 
 /**
- * Alternative layout: Reed-Kellogg style (horizontal baseline).
- * This arranges terminal nodes on a baseline with structure above.
+ * A straight line of a Reed-Kellogg diagram.
+ */
+export interface DiagramLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  dashed?: boolean;
+}
+
+/**
+ * Alternative layout: a Reed-Kellogg sentence diagram, built from the
+ * sentence's dependencies. Each clause sits on a baseline: subject, a bar
+ * crossing the line, the verb, then a short bar and the direct object.
+ * Modifiers hang on slanted lines below their head (a preposition on the
+ * slant, its object on a line at the foot). Relative clauses and
+ * conjuncts get their own baseline below, joined by a dashed line.
+ *
+ * The layout nodes are the words, each under its head; slanted words have
+ * an angle, and words the diagram supplies, like "(you)", have no position.
  */
 export function calculateReedKelloggLayout(
-  tree: ParseTree,
+  input: ParseTree | DependencyGraph,
   config: Partial<LayoutConfig> = {}
-): { root: LayoutNode; width: number; height: number } {
+): { root: LayoutNode; width: number; height: number; lines: DiagramLine[] } {
   const cfg = { ...DEFAULT_CONFIG, ...config };
+  const graph = 'tokens' in input ? input : toDependencies(input);
+  return new ReedKelloggDiagram(graph, cfg).layout();
+}
 
-  // Collect terminals in order
-  const terminals: LayoutNode[] = [];
-  const root = buildLayoutNode(tree.root, cfg);
-  collectTerminals(root, terminals);
+/** Slant of modifier lines, in degrees below the horizontal */
+const SLANT_ANGLE = 60;
+const SLANT_COS = Math.cos((SLANT_ANGLE * Math.PI) / 180);
+const SLANT_SIN = Math.sin((SLANT_ANGLE * Math.PI) / 180);
 
-  // Position terminals along baseline
-  const baselineY = cfg.padding;
-  let currentX = cfg.padding;
+/** Relations drawn as a clause of their own rather than on a slant */
+const CLAUSE_RELATIONS = new Set(['acl:relcl', 'conj']);
 
-  for (const term of terminals) {
-    term.x = currentX;
-    term.y = baselineY;
-    term.baselineY = baselineY + term.height;
-    currentX += term.width + cfg.horizontalGap;
+/** A clause waiting to be drawn below, and where to join it with a dashed line */
+interface PendingClause {
+  token: DependencyToken;
+  from: { x: number; y: number };
+}
+
+/**
+ * Lays out one Reed-Kellogg diagram. Clauses are drawn one below another,
+ * main clauses first, then each clause hanging off the ones above.
+ */
+class ReedKelloggDiagram {
+  private lines: DiagramLine[] = [];
+  private nodes = new Map<number, LayoutNode>();
+  private dependents = new Map<number, DependencyToken[]>();
+  /** Middle of each word's line, where dashed lines join it */
+  private anchors = new Map<LayoutNode, { x: number; y: number }>();
+  private pending: PendingClause[] = [];
+
+  constructor(
+    graph: DependencyGraph,
+    private cfg: LayoutConfig
+  ) {
+    for (const token of graph.tokens) {
+      this.nodes.set(token.id, this.wordNode(token.word, token.pos, token.id));
+      const list = this.dependents.get(token.head);
+      if (list) list.push(token);
+      else this.dependents.set(token.head, [token]);
+    }
+    for (const token of graph.tokens) {
+      this.nodes.get(token.head)?.children.push(this.nodes.get(token.id)!);
+    }
   }
 
-  // Position non-terminals above their children
-  positionParents(root, cfg);
+  layout(): { root: LayoutNode; width: number; height: number; lines: DiagramLine[] } {
+    const roots = this.dependents.get(0) ?? [];
+    for (const root of roots) {
+      this.clause(root, 0, this.bottom() + this.cfg.verticalGap, 'main');
+    }
 
-  const bounds = calculateBounds(root);
+    while (this.pending.length > 0) {
+      const { token, from } = this.pending.shift()!;
+      const y = this.bottom() + this.cfg.verticalGap;
+      const target = this.clause(token, Math.max(0, from.x - this.cfg.nodeWidth / 2), y, token.relation);
+      this.lines.push({ x1: from.x, y1: from.y, x2: target.x, y2: target.y, dashed: true });
+
+      // A conjunction is written beside the dashed line joining its conjuncts
+      const conjunction = this.dependentsOf(token).find(dependent => dependent.relation === 'cc');
+      if (conjunction) {
+        this.place(this.nodes.get(conjunction.id)!, (from.x + target.x) / 2 + 6, (from.y + target.y) / 2);
+      }
+    }
 
-  return {
-    root,
-    width: bounds.maxX + cfg.padding,
-    height: bounds.maxY + cfg.padding,
-  };
-}
+    const root = roots.length > 0 ? this.nodes.get(roots[0]!.id)! : this.wordNode('', '');
+    for (const extra of roots.slice(1)) root.children.push(this.nodes.get(extra.id)!);
+    return this.normalize(root);
+  }
+
+  /**
+   * Draw a clause on a baseline from x. A verb gets its subject and object
+   * slots; anything else is a lone word on the line. Returns where a dashed
+   * line should join the clause: its relative pronoun, or the word it omits.
+   */
+  private clause(token: DependencyToken, x: number, y: number, relation: string): { x: number; y: number } {
+    const dependents = this.dependentsOf(token);
+    const subject = dependents.find(dependent => dependent.relation === 'nsubj');
+    const object = dependents.find(dependent => dependent.relation === 'obj');
+    const head = this.nodes.get(token.id)!;
+
+    if (token.pos !== 'V' && !subject && !object) {
+      const end = this.segment(token, x, y);
+      this.lines.push({ x1: x, y1: y, x2: end, y2: y });
+      return this.anchors.get(head)!;
+    }
+
+    // A reduced relative clause omits its pronoun: "buffalo [that] Buffalo buffalo buffalo"
+    const relative = relation === 'acl:relcl' ? this.pronounOf(token) : null;
+    const omitted = relation === 'acl:relcl' && relative === null;
+
+    let cursor = x;
+    if (subject) {
+      cursor = this.segment(subject, cursor, y);
+    } else if (relation === 'main' || (omitted && object)) {
+      cursor = this.understood(omitted ? '(that)' : '(you)', head, cursor, y);
+    } else {
+      cursor += this.cfg.nodeWidth / 2;
+    }
+
+    // The bar between subject and predicate crosses the baseline
+    this.lines.push({ x1: cursor, y1: y - this.barHeight(), x2: cursor, y2: y + this.cfg.fontSize });
+    cursor = this.segment(token, cursor, y);
 
-function collectTerminals(node: LayoutNode, terminals: LayoutNode[]): void {
-  if (node.isTerminal) {
-    terminals.push(node);
-  } else {
-    for (const child of node.children) {
-      collectTerminals(child, terminals);
+    if (object || (omitted && subject)) {
+      // The bar before a direct object stops at the baseline
+      this.lines.push({ x1: cursor, y1: y - this.barHeight(), x2: cursor, y2: y });
+      cursor = object ? this.segment(object, cursor, y) : this.understood('(that)', head, cursor, y);
     }
+
+    this.lines.push({ x1: x, y1: y, x2: cursor, y2: y });
+
+    if (relative) return this.anchors.get(this.nodes.get(relative.id)!)!;
+    const supplied = omitted ? head.children.find(child => child.word === '(that)') : undefined;
+    return this.anchors.get(supplied ?? head)!;
   }
-}
 
-function positionParents(node: LayoutNode, cfg: LayoutConfig): { minX: number; maxX: number; maxY: number } {
-  if (node.isTerminal) {
+  /**
+   * Write a word on the baseline from x, with its modifiers slanting below.
+   * Returns where its stretch of the line ends.
+   */
+  private segment(token: DependencyToken, x: number, y: number, skip = ['nsubj', 'obj']): number {
+    const node = this.nodes.get(token.id)!;
+    const gap = this.cfg.horizontalGap / 2;
+    this.place(node, x + gap, y - 5);
+
+    const modifiersEnd = this.modifiers(token, x + gap, y, skip);
+    const end = Math.max(x + node.width + gap * 2, modifiersEnd + gap);
+    this.anchors.set(node, { x: (x + end) / 2, y });
+    this.queueClauses(token, (x + end) / 2, y);
+    return end;
+  }
+
+  /**
+   * Draw a word the sentence leaves out, in parentheses, as a slot of a clause.
+   */
+  private understood(word: string, head: LayoutNode, x: number, y: number): number {
+    const node = this.wordNode(word, '');
+    head.children.push(node);
+    const gap = this.cfg.horizontalGap / 2;
+    this.place(node, x + gap, y - 5);
+    const end = x + node.width + gap * 2;
+    this.anchors.set(node, { x: (x + end) / 2, y });
+    return end;
+  }
+
+  /**
+   * Hang a head's modifiers on slanted lines from the line at y, starting
+   * at x. Slants run side by side; one carrying more below gets its room.
+   * Returns how far right the modifiers reach.
+   */
+  private modifiers(token: DependencyToken, x: number, y: number, skip: string[]): number {
+    let cursor = x;
+    let reach = x;
+    for (const modifier of this.dependentsOf(token)) {
+      if (skip.includes(modifier.relation) || CLAUSE_RELATIONS.has(modifier.relation) || modifier.relation === 'cc') {
+        continue;
+      }
+      const end = this.slant(modifier, cursor, y);
+      reach = Math.max(reach, end);
+      const carries = this.dependentsOf(modifier).some(dependent => !CLAUSE_RELATIONS.has(dependent.relation));
+      cursor = carries ? end + this.cfg.horizontalGap : cursor + this.cfg.fontSize * 2;
+    }
+    return reach;
+  }
+
+  /**
+   * Draw one modifier on a slant from (x, y). A prepositional phrase puts
+   * its preposition on the slant and its object on a line at the foot;
+   * any other modifier's own modifiers hang from a short line at the foot.
+   * Returns how far right it reaches.
+   */
+  private slant(token: DependencyToken, x: number, y: number): number {
+    const markers = this.dependentsOf(token).filter(dependent => dependent.relation === 'case');
+    const onSlant = markers.length > 0 ? markers : [token];
+    const words = onSlant.map(word => this.nodes.get(word.id)!);
+
+    const length = words.reduce((sum, node) => sum + node.width, 0) + this.cfg.fontSize * 1.5;
+    const footX = x + length * SLANT_COS;
+    const footY = y + length * SLANT_SIN;
+    this.lines.push({ x1: x, y1: y, x2: footX, y2: footY });
+
+    let along = this.cfg.fontSize / 2;
+    for (const node of words) {
+      node.angle = SLANT_ANGLE;
+      // Just above the line: the text's up is perpendicular to the slant
+      this.place(node, x + along * SLANT_COS + 3 * SLANT_SIN, y + along * SLANT_SIN - 3 * SLANT_COS);
+      along += node.width + 4;
+    }
+
+    if (markers.length > 0) {
+      const end = this.segment(token, footX, footY, ['case']);
+      this.lines.push({ x1: footX, y1: footY, x2: end, y2: footY });
+      return end;
+    }
+
+    const reach = this.modifiers(token, footX, footY, []);
+    if (reach > footX) this.lines.push({ x1: footX, y1: footY, x2: reach + this.cfg.horizontalGap / 2, y2: footY });
+    this.queueClauses(token, footX, footY);
+    return Math.max(footX, reach);
+  }
+
+  private queueClauses(token: DependencyToken, x: number, y: number): void {
+    for (const dependent of this.dependentsOf(token)) {
+      if (CLAUSE_RELATIONS.has(dependent.relation)) this.pending.push({ token: dependent, from: { x, y } });
+    }
+  }
+
+  /** The relative pronoun of a relative clause, if it has one */
+  private pronounOf(token: DependencyToken): DependencyToken | null {
+    for (const dependent of this.dependentsOf(token)) {
+      if (dependent.pos === 'REL') return dependent;
+      if (!CLAUSE_RELATIONS.has(dependent.relation)) {
+        const found = this.pronounOf(dependent);
+        if (found) return found;
+      }
+    }
+    return null;
+  }
+
+  private dependentsOf(token: DependencyToken): DependencyToken[] {
+    return this.dependents.get(token.id) ?? [];
+  }
+
+  private barHeight(): number {
+    return this.cfg.fontSize + 8;
+  }
+
+  private wordNode(word: string, pos: string, position?: number): LayoutNode {
     return {
-      minX: node.x,
-      maxX: node.x + node.width,
-      maxY: node.y + node.height,
+      x: 0,
+      y: 0,
+      width: word.length * this.cfg.fontSize * 0.6,
+      height: this.cfg.fontSize,
+      label: pos,
+      word,
+      isTerminal: true,
+      children: [],
+      position,
+      pos: pos || undefined,
     };
   }
 
-  // Get bounds of all children
-  let minX = Infinity;
-  let maxX = -Infinity;
-  let maxChildY = 0;
+  private place(node: LayoutNode, x: number, y: number): void {
+    node.x = x;
+    node.y = y;
+    node.baselineY = y;
+  }
 
-  for (const child of node.children) {
-    const childBounds = positionParents(child, cfg);
-    minX = Math.min(minX, childBounds.minX);
-    maxX = Math.max(maxX, childBounds.maxX);
-    maxChildY = Math.max(maxChildY, childBounds.maxY);
+  /** Lowest point drawn so far */
+  private bottom(): number {
+    let bottom = -this.cfg.verticalGap;
+    for (const line of this.lines) bottom = Math.max(bottom, line.y1, line.y2);
+    return bottom;
   }
 
-  // Position this node centered above children
-  node.x = (minX + maxX) / 2 - node.width / 2;
-  node.y = maxChildY + cfg.verticalGap;
-  node.baselineY = node.y + node.height;
+  /** Shift everything so the diagram starts at the padding, and measure it */
+  private normalize(root: LayoutNode): { root: LayoutNode; width: number; height: number; lines: DiagramLine[] } {
+    const words = [...this.nodes.values(), ...[...this.anchors.keys()].filter(node => node.position === undefined)];
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (const line of this.lines) {
+      xs.push(line.x1, line.x2);
+      ys.push(line.y1, line.y2);
+    }
+    for (const node of words) {
+      const angle = ((node.angle ?? 0) * Math.PI) / 180;
+      xs.push(node.x, node.x + node.width * Math.cos(angle) + this.cfg.fontSize);
+      ys.push(node.y - this.cfg.fontSize, node.y + node.width * Math.sin(angle));
+    }
+
+    const dx = this.cfg.padding - Math.min(0, ...xs);
+    const dy = this.cfg.padding - Math.min(...ys, 0);
+    for (const line of this.lines) {
+      line.x1 += dx;
+      line.x2 += dx;
+      line.y1 += dy;
+      line.y2 += dy;
+    }
+    for (const node of words) this.place(node, node.x + dx, node.y + dy);
+
+    return {
+      root,
+      width: Math.max(0, ...xs) + dx + this.cfg.padding,
+      height: Math.max(0, ...ys) + dy + this.cfg.padding,
+      lines: this.lines,
+    };
+  }
+}
+
+/**
+ * Alternative layout: dependency arcs (displaCy style).
+ * Words sit on one line; each word's children are its dependents, and the
+ * arc from a head to a dependent rises one step above the arcs it spans.
+ * Extra roots hang off the first root without an arc.
+ */
+export function calculateArcLayout(
+  graph: DependencyGraph,
+  config: Partial<LayoutConfig> = {}
+): { root: LayoutNode; width: number; height: number } {
+  const cfg = { ...DEFAULT_CONFIG, ...config };
+  const step = cfg.verticalGap * 0.8;
+
+  const words = graph.tokens.map(token => buildWordNode(token, cfg));
+  const levels = arcLevels(graph.tokens);
+  const maxLevel = Math.max(0, ...levels.values());
+
+  // Words along one baseline, below the highest arc and its label
+  const baselineY = cfg.padding + maxLevel * step + cfg.fontSize;
+  let currentX = cfg.padding;
+  for (const word of words) {
+    word.x = currentX;
+    word.y = baselineY;
+    word.baselineY = baselineY + word.height;
+    currentX += word.width + cfg.horizontalGap;
+  }
+
+  const roots: LayoutNode[] = [];
+  graph.tokens.forEach((token, i) => {
+    const word = words[i]!;
+    const head = words[token.head - 1];
+    if (head) {
+      word.relation = token.relation;
+      word.arcHeight = levels.get(token.id)! * step;
+      head.children.push(word);
+    } else {
+      roots.push(word);
+    }
+  });
+
+  const root = roots[0] ?? buildWordNode({ id: 0, word: '', pos: '', head: 0, relation: 'root' }, cfg);
+  root.children.push(...roots.slice(1));
 
   return {
-    minX: Math.min(minX, node.x),
-    maxX: Math.max(maxX, node.x + node.width),
-    maxY: node.y + node.height,
+    root,
+    width: Math.max(currentX - cfg.horizontalGap, cfg.padding) + cfg.padding,
+    height: baselineY + cfg.nodeHeight * 2 + cfg.padding,
   };
 }
+
+function buildWordNode(token: DependencyToken, cfg: LayoutConfig): LayoutNode {
+  const label = String(token.pos);
+  const textLength = Math.max(label.length, token.word.length);
+  return {
+    x: 0,
+    y: 0,
+    width: Math.max(cfg.nodeWidth, textLength * cfg.fontSize * 0.6 + 30),
+    height: cfg.nodeHeight * 2,
+    label,
+    word: token.word,
+    isTerminal: true,
+    children: [],
+    position: token.id,
+    pos: label,
+  };
+}
+
+/**
+ * Height of each dependent's arc in steps: one more than the highest arc
+ * strictly inside its span, so nested arcs never cross.
+ */
+function arcLevels(tokens: DependencyToken[]): Map<number, number> {
+  const arcs = tokens
+    .filter(token => token.head > 0)
+    .map(token => ({ id: token.id, from: Math.min(token.id, token.head), to: Math.max(token.id, token.head) }))
+    .sort((a, b) => (a.to - a.from) - (b.to - b.from));
+
+  const levels = new Map<number, number>();
+  for (const arc of arcs) {
+    let level = 1;
+    for (const inner of arcs) {
+      const nested = inner.from >= arc.from && inner.to <= arc.to && inner.to - inner.from < arc.to - arc.from;
+      if (nested) level = Math.max(level, levels.get(inner.id)! + 1);
+    }
+    levels.set(arc.id, level);
+  }
+  return levels;
+}
@@ -1,11 +1,19 @@
-import type { ParseTree } from '../types.js';
-import { calculateLayout, calculateReedKelloggLayout, type LayoutNode, type LayoutConfig } from './layout.js';
+import type { DependencyGraph, ParseTree } from '../types.js';
+import { fromDependencies, toDependencies } from '../parser/dependencies.js';
+import {
+  calculateArcLayout,
+  calculateLayout,
+  calculateReedKelloggLayout,
+  type DiagramLine,
+  type LayoutNode,
+  type LayoutConfig,
+} from './layout.js';
 
 /**
  * Render configuration options.
  */
 export interface RenderConfig extends Partial<LayoutConfig> {
-  style?: 'tree' | 'reed-kellogg';
+  style?: 'tree' | 'reed-kellogg' | 'arcs';
   colors?: {
     node?: string;
     line?: string;
@@ -28,20 +36,31 @@ const DEFAULT_COLORS = {
 };
 
 /**
- * Render a parse tree as an SVG string.
+ * Render a parse tree as an SVG string. In the tree style a dependency
+ * graph is drawn as the tree of its heads, each phrase labeled with its
+ * relation; the Reed-Kellogg and arcs styles draw a parse tree's dependencies.
  */
-export function renderTreeToSVG(tree: ParseTree, config: RenderConfig = {}): string {
+export function renderTreeToSVG(input: ParseTree | DependencyGraph, config: RenderConfig = {}): string {
   const style = config.style ?? 'tree';
   const colors = { ...DEFAULT_COLORS, ...config.colors };
 
-  const layout = style === 'reed-kellogg'
-    ? calculateReedKelloggLayout(tree, config)
-    : calculateLayout(tree, config);
-
-  const { root, width, height } = layout;
-
-  const lines = renderLines(root, colors.line);
-  const nodes = renderNodes(root, colors, config.wildcardPosition);
+  let width: number;
+  let height: number;
+  let lines: string;
+  let nodes: string;
+  if (style === 'reed-kellogg') {
+    const diagram = calculateReedKelloggLayout(input, config);
+    ({ width, height } = diagram);
+    lines = renderDiagramLines(diagram.lines, colors.line);
+    nodes = renderDiagramWords(diagram.root, config.wildcardPosition);
+  } else {
+    const layout = style === 'arcs'
+      ? calculateArcLayout('tokens' in input ? input : toDependencies(input), config)
+      : calculateLayout('tokens' in input ? fromDependencies(input) : input, config);
+    ({ width, height } = layout);
+    lines = style === 'arcs' ? renderArcs(layout.root, colors.line) : renderLines(layout.root, colors.line);
+    nodes = renderNodes(layout.root, colors, config.wildcardPosition);
+  }
 
   return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">
   <style>
@@ -50,6 +69,7 @@ export function renderTreeToSVG(tree: ParseTree, config: RenderConfig = {}): str
     .position-badge { font-family: 'SF Mono', Monaco, monospace; font-size: 10px; font-weight: bold; }
     .node-rect { rx: 4; ry: 4; }
     .connector { stroke-width: 2; fill: none; }
+    .arc-label { font-family: 'SF Mono', Monaco, monospace; font-size: 11px; paint-order: stroke; stroke: white; stroke-width: 4px; }
   </style>
   <rect width="100%" height="100%" fill="${colors.background}" />
   <g class="connectors">${lines}</g>
@@ -82,6 +102,73 @@ function renderLines(node: LayoutNode, color: string): string {
   return svg;
 }
 
+/**
+ * Draw an arc from each head word to each of its dependents, with an arrow
+ * into the dependent and the relation at the top, in the dependent's color.
+ */
+function renderArcs(node: LayoutNode, color: string): string {
+  let svg = '';
+
+  const headX = node.x + node.width / 2;
+  const y = node.y;
+
+  for (const child of node.children) {
+    if (child.relation !== undefined && child.arcHeight !== undefined) {
+      const arcColor = POS_COLORS[child.pos ?? ''] ?? color;
+      const childX = child.x + child.width / 2;
+      // Start beside the head's center, so arcs leaving both ways do not meet
+      const startX = headX + Math.sign(childX - headX) * 6;
+      const topY = y - child.arcHeight;
+
+      svg += `
+    <path class="connector"
+          d="M ${startX} ${y}
+             C ${startX} ${topY}, ${childX} ${topY}, ${childX} ${y}"
+          stroke="${arcColor}" />
+    <path d="M ${childX - 4} ${y - 7} L ${childX} ${y} L ${childX + 4} ${y - 7} Z" fill="${arcColor}" />
+    <text class="arc-label"
+          x="${(startX + childX) / 2}" y="${y - child.arcHeight * 0.75 + 4}"
+          text-anchor="middle" fill="${arcColor}">${escapeXml(child.relation)}</text>`;
+    }
+
+    svg += renderArcs(child, color);
+  }
+
+  return svg;
+}
+
+function renderDiagramLines(lines: DiagramLine[], color: string): string {
+  return lines.map(line => `
+    <line x1="${line.x1}" y1="${line.y1}" x2="${line.x2}" y2="${line.y2}"
+          stroke="${color}" stroke-width="2"${line.dashed ? ' stroke-dasharray="6 4"' : ''} />`).join('');
+}
+
+/**
+ * Write each word of a Reed-Kellogg diagram in its part of speech's color,
+ * turned to lie along a slanted line if it is on one, with its position as
+ * a superscript. Supplied words like "(you)" are grey.
+ */
+function renderDiagramWords(node: LayoutNode, wildcardPosition?: number): string {
+  let svg = '';
+
+  if (node.word) {
+    const color = node.position === undefined ? '#999' : POS_COLORS[node.pos ?? ''] ?? '#333';
+    const rotate = node.angle ? ` transform="rotate(${node.angle} ${node.x} ${node.y})"` : '';
+    const star = node.position !== undefined && node.position === wildcardPosition ? '✨' : '';
+    const badge = node.position === undefined
+      ? ''
+      : `<tspan class="position-badge" dy="-6">${node.position}</tspan>`;
+    svg += `
+  <text class="word-label" x="${node.x}" y="${node.y}" fill="${color}"${rotate}>${star}${escapeXml(node.word)}${badge}</text>`;
+  }
+
+  for (const child of node.children) {
+    svg += renderDiagramWords(child, wildcardPosition);
+  }
+
+  return svg;
+}
+
 function renderNodes(node: LayoutNode, colors: typeof DEFAULT_COLORS, wildcardPosition?: number): string {
   let svg = '';
 
@@ -159,7 +246,7 @@ function escapeXml(str: string): string {
 /**
  * Render a parse tree to an SVG element (for browser use).
  */
-export function renderTreeToElement(tree: ParseTree, config: RenderConfig = {}): SVGSVGElement {
+export function renderTreeToElement(tree: ParseTree | DependencyGraph, config: RenderConfig = {}): SVGSVGElement {
   const svgString = renderTreeToSVG(tree, config);
   const parser = new DOMParser();
   const doc = parser.parseFromString(svgString, 'image/svg+xml');
@@ -169,7 +256,7 @@ export function renderTreeToElement(tree: ParseTree, config: RenderConfig = {}):
 /**
  * Render multiple parse trees as a gallery.
  */
-export function renderTreeGallery(trees: ParseTree[], config: RenderConfig = {}): string {
+export function renderTreeGallery(trees: (ParseTree | DependencyGraph)[], config: RenderConfig = {}): string {
   if (trees.length === 0) {
     return '<div class="no-parses">No valid parses found</div>';
   }
@@ -1,7 +1,16 @@
 import { describe, it, expect } from 'vitest';
-import { calculateLayout, calculateReedKelloggLayout } from './layout.js';
+import { calculateArcLayout, calculateLayout, calculateReedKelloggLayout } from './layout.js';
+import type { LayoutNode } from './layout.js';
 import { renderTreeToSVG, renderTreeGallery } from './renderer.js';
-import { EarleyParser, createEnglishGrammar, createBuffaloLexicon, createTestLexicon } from '../parser/index.js';
+import {
+  EarleyParser,
+  createEnglishGrammar,
+  createBuffaloLexicon,
+  createTestLexicon,
+  toDependencies,
+  createBuffaloTreebank,
+  fromBracketed,
+} from '../parser/index.js';
 
 describe('Layout', () => {
   const grammar = createEnglishGrammar();
@@ -50,6 +59,112 @@ describe('Reed-Kellogg Layout', () => {
     expect(layout.width).toBeGreaterThan(0);
     expect(layout.height).toBeGreaterThan(0);
   });
+
+  function words(node: LayoutNode): Map<string, LayoutNode> {
+    const all = new Map([[node.word!, node]]);
+    for (const child of node.children) for (const [word, n] of words(child)) all.set(word, n);
+    return all;
+  }
+
+  it('should split subject and predicate with a bar crossing the baseline', () => {
+    const tree = fromBracketed('(S (NP (N dogs)) (VP (V chase) (NP (N cats))))');
+    const { root, lines } = calculateReedKelloggLayout(tree);
+    const { dogs, chase, cats } = Object.fromEntries(words(root));
+    const baselineY = lines.find(line => line.y1 === line.y2)!.y1;
+
+    // Words sit above the baseline, in order
+    for (const word of [dogs!, chase!, cats!]) expect(word.y).toBeLessThan(baselineY);
+    expect(dogs!.x).toBeLessThan(chase!.x);
+    expect(chase!.x).toBeLessThan(cats!.x);
+
+    const bars = lines.filter(line => line.x1 === line.x2);
+    expect(bars).toHaveLength(2);
+    // Subject bar crosses the line; the object bar stops at it
+    expect(bars[0]!.y2).toBeGreaterThan(baselineY);
+    expect(bars[1]!.y2).toBe(baselineY);
+    expect(bars[0]!.x1).toBeLessThan(chase!.x);
+    expect(bars[1]!.x1).toBeLessThan(cats!.x);
+  });
+
+  it('should hang modifiers on slanted lines below their head', () => {
+    const tree = fromBracketed('(S (NP (DET the) (ADJ big) (N dog)) (VP (V ran)))');
+    const { root } = calculateReedKelloggLayout(tree);
+    const all = words(root);
+
+    for (const modifier of ['the', 'big']) {
+      expect(all.get(modifier)!.angle).toBe(60);
+      expect(all.get(modifier)!.y).toBeGreaterThan(all.get('dog')!.y);
+    }
+    expect(all.get('dog')!.angle).toBeUndefined();
+  });
+
+  it('should put a preposition on the slant and its object at the foot', () => {
+    const tree = fromBracketed('(S (NP (N birds)) (VP (V sing) (PP (PREP in) (NP (N trees)))))');
+    const all = words(calculateReedKelloggLayout(tree).root);
+
+    expect(all.get('in')!.angle).toBe(60);
+    expect(all.get('trees')!.angle).toBeUndefined();
+    expect(all.get('trees')!.y).toBeGreaterThan(all.get('in')!.y);
+  });
+
+  it('should draw a relative clause on its own baseline joined by a dashed line', () => {
+    const { root, lines } = calculateReedKelloggLayout(createBuffaloTreebank().at(-1)!);
+    const baselines = new Set(lines.filter(line => line.y1 === line.y2 && line.x2 - line.x1 > 100).map(line => line.y1));
+    const dashed = lines.filter(line => line.dashed);
+
+    expect(baselines.size).toBe(2);
+    expect(dashed).toHaveLength(1);
+    // The reduced relative omits its pronoun, which the diagram supplies as the clause's object
+    const supplied = [...words(root).values()].find(node => node.word === '(that)')!;
+    expect(supplied.position).toBeUndefined();
+    expect(dashed[0]!.y2).toBeGreaterThan(dashed[0]!.y1);
+    expect(Math.abs(dashed[0]!.x2 - (supplied.x + supplied.width / 2))).toBeLessThan(20);
+  });
+
+  it('should supply the subject of an imperative', () => {
+    const tree = fromBracketed('(S (VP (V buffalo) (NP (N buffalo))))');
+    const all = words(calculateReedKelloggLayout(tree).root);
+
+    expect(all.get('(you)')).toBeDefined();
+    expect(all.get('(you)')!.x).toBeLessThan(all.get('buffalo')!.x);
+  });
+});
+
+describe('Arc Layout', () => {
+  const graph = toDependencies(createBuffaloTreebank().at(-1)!);
+
+  function allNodes(node: LayoutNode): LayoutNode[] {
+    return [node, ...node.children.flatMap(allNodes)];
+  }
+
+  it('should put every word on one line in sentence order', () => {
+    const nodes = allNodes(calculateArcLayout(graph).root).sort((a, b) => a.position! - b.position!);
+
+    expect(nodes.map(node => node.position)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(new Set(nodes.map(node => node.y)).size).toBe(1);
+    for (let i = 1; i < nodes.length; i++) {
+      expect(nodes[i]!.x).toBeGreaterThan(nodes[i - 1]!.x + nodes[i - 1]!.width);
+    }
+  });
+
+  it('should root the layout at the head word with dependents as children', () => {
+    const { root } = calculateArcLayout(graph);
+
+    expect(root.position).toBe(6);
+    expect(root.relation).toBeUndefined();
+    expect(root.children.map(child => `${child.position}:${child.relation}`)).toEqual(['2:nsubj', '8:obj']);
+  });
+
+  it('should raise arcs above the arcs they span', () => {
+    const byPosition = new Map(allNodes(calculateArcLayout(graph).root).map(node => [node.position, node]));
+
+    // compound 1←2 sits under acl:relcl 2→5, which sits under nsubj 2←6
+    expect(byPosition.get(1)!.arcHeight).toBeLessThan(byPosition.get(5)!.arcHeight!);
+    expect(byPosition.get(5)!.arcHeight).toBeLessThan(byPosition.get(2)!.arcHeight!);
+    // Disjoint arcs of the same nesting are equally high
+    expect(byPosition.get(1)!.arcHeight).toBe(byPosition.get(7)!.arcHeight);
+    expect(byPosition.get(2)!.y).toBeGreaterThan(byPosition.get(2)!.arcHeight!);
+  });
 });
 
 describe('SVG Renderer', () => {
@@ -90,6 +205,30 @@ describe('SVG Renderer', () => {
 
     expect(svg).toContain('<svg');
     expect(svg).toContain('the');
+    // Words on lines, not boxes; "the" on a slant
+    expect(svg).not.toContain('node-rect"');
+    expect(svg).toMatch(/transform="rotate\(60 [^"]*"[^>]*>the</);
+  });
+
+  it('should render with arcs style', () => {
+    const result = parser.parse(['the', 'dog', 'chased', 'the', 'cat']);
+    const svg = renderTreeToSVG(result.trees[0]!, { style: 'arcs' });
+
+    expect(svg.match(/class="arc-label"/g)).toHaveLength(4);
+    expect(svg).toContain('>nsubj</text>');
+    expect(svg).toContain('>det</text>');
+    // Words only: no phrase nodes
+    expect(svg).not.toContain('>NP<');
+  });
+
+  it('should render a dependency graph with relation labels', () => {
+    const result = parser.parse(['the', 'dog', 'chased', 'the', 'cat']);
+    const svg = renderTreeToSVG(toDependencies(result.trees[0]!));
+
+    expect(svg).toContain('>root<');
+    expect(svg).toContain('>nsubj<');
+    expect(svg).toContain('>obj<');
+    expect(svg).toContain('>chased<');
   });
 });
 
@@ -115,6 +254,23 @@ describe('Buffalo Visualization', () => {
     expect(gallery).toContain('Parse 1');
   });
 
+  it('should color arcs by part of speech and keep the wildcard star', () => {
+    const svg = renderTreeToSVG(createBuffaloTreebank().at(-1)!, { style: 'arcs', wildcardPosition: 3 });
+
+    expect(svg).toMatch(/stroke="#9b59b6" \/>\s*<path[^>]*\/>\s*<text class="arc-label"[^>]*>compound</);
+    expect(svg).toMatch(/stroke="#2ecc71" \/>\s*<path[^>]*\/>\s*<text class="arc-label"[^>]*>nsubj</);
+    expect(svg.match(/✨/g)).toHaveLength(1);
+  });
+
+  it('should draw Reed-Kellogg diagrams with colored words and the wildcard star', () => {
+    const svg = renderTreeToSVG(createBuffaloTreebank().at(-1)!, { style: 'reed-kellogg', wildcardPosition: 3 });
+
+    expect(svg).toContain('stroke-dasharray');
+    expect(svg).toMatch(/fill="#e74c3c">buffalo<tspan[^>]*>5</);
+    expect(svg).toMatch(/✨Buffalo<tspan[^>]*>3</);
+    expect(svg).toMatch(/fill="#999">\(that\)</);
+  });
+
   it('should handle no parses', () => {
     const gallery = renderTreeGallery([]);
     expect(gallery).toContain('No valid parses');
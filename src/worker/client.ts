@@ -0,0 +1,137 @@
+import type { ParseResult, PositionConstraint } from '../types.js';
+import type { Grammar } from '../parser/grammar.js';
+import type { Lexicon } from '../parser/lexicon.js';
+import type { InitRequest, ParseProgress, WorkerRequest, WorkerResponse } from './protocol.js';
+
+/** The parts of a Worker the client uses, so tests can stand in for one */
+export interface WorkerLike {
+  postMessage(message: WorkerRequest): void;
+  terminate(): void;
+  onmessage: ((event: MessageEvent<WorkerResponse>) => void) | null;
+}
+
+/**
+ * Rejects the promise of a parse that was cancelled or replaced by a newer one.
+ */
+export class ParseCancelledError extends Error {
+  constructor() {
+    super('Parse cancelled');
+    this.name = 'ParseCancelledError';
+  }
+}
+
+interface PendingParse {
+  id: number;
+  resolve: (result: ParseResult) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: ParseProgress) => void;
+}
+
+/**
+ * Runs parses in a worker, one at a time. Starting a parse cancels the one
+ * in flight; since a busy worker cannot read messages, cancelling
+ * terminates it and a fresh worker is started for the next parse.
+ *
+ * @example
+ * const client = new ParseWorkerClient(
+ *   () => new Worker(new URL('./parse-worker.ts', import.meta.url), { type: 'module' }),
+ *   createEnglishGrammar(),
+ *   createBuffaloLexicon()
+ * );
+ * const result = await client.parse(['buffalo', 'buffalo'], undefined, p => console.log(p));
+ */
+export class ParseWorkerClient {
+  private worker: WorkerLike | null = null;
+  private pending: PendingParse | null = null;
+  private nextId = 1;
+  private init: InitRequest;
+
+  constructor(
+    private createWorker: () => WorkerLike,
+    grammar: Grammar,
+    lexicon: Lexicon
+  ) {
+    this.init = { type: 'init', grammar: grammar.toText(), lexicon: JSON.stringify(lexicon) };
+  }
+
+  /** Whether a parse is in flight */
+  get busy(): boolean {
+    return this.pending !== null;
+  }
+
+  /**
+   * Parse in the worker, reporting progress as the chart and trees are built.
+   */
+  parse(
+    input: string[],
+    constraints?: PositionConstraint[],
+    onProgress?: (progress: ParseProgress) => void
+  ): Promise<ParseResult> {
+    this.cancel();
+    const worker = this.start();
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      this.pending = { id, resolve, reject, onProgress };
+      worker.postMessage({ type: 'parse', id, input, constraints });
+    });
+  }
+
+  /**
+   * Stop the parse in flight, if any, rejecting it with ParseCancelledError.
+   */
+  cancel(): void {
+    if (!this.pending) return;
+
+    const { reject } = this.pending;
+    this.pending = null;
+    this.worker?.terminate();
+    this.worker = null;
+    reject(new ParseCancelledError());
+  }
+
+  /**
+   * Cancel any parse and shut the worker down.
+   */
+  dispose(): void {
+    this.cancel();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private start(): WorkerLike {
+    if (!this.worker) {
+      this.worker = this.createWorker();
+      this.worker.onmessage = event => this.receive(event.data);
+      this.worker.postMessage(this.init);
+    }
+    return this.worker;
+  }
+
+  private receive(response: WorkerResponse): void {
+    const pending = this.pending;
+    if (!pending) return;
+
+    if (response.type === 'error' && response.id === undefined) {
+      // The grammar or lexicon did not load, so no parse can succeed
+      this.pending = null;
+      pending.reject(new Error(response.message));
+      return;
+    }
+    if (response.id !== pending.id) return;
+
+    switch (response.type) {
+      case 'progress':
+        pending.onProgress?.(response.progress);
+        break;
+      case 'result':
+        this.pending = null;
+        pending.resolve(response.result);
+        break;
+      case 'error':
+        this.pending = null;
+        pending.reject(new Error(response.message));
+        break;
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import type { ParseSession } from '../parser/session.js';
+import { EarleyParser } from '../parser/earley.js';
+import { Grammar } from '../parser/grammar.js';
+import { Lexicon } from '../parser/lexicon.js';
+import type { WorkerRequest, WorkerResponse } from './protocol.js';
+import { PARTS_OF_SPEECH } from '../types.js';
+
+/** Least time between two 'trees' progress messages */
+const TREES_PROGRESS_MS = 50;
+
+/**
+ * Create the worker's message handler. It keeps one parse session, so a
+ * sentence that grows by a word only costs one more chart column.
+ * Kept apart from the worker entry point so it can run without a Worker.
+ */
+export function createParseHandler(post: (response: WorkerResponse) => void): (request: WorkerRequest) => void {
+  let session: ParseSession | null = null;
+
+  return request => {
+    switch (request.type) {
+      case 'init': {
+        try {
+          const grammar = Grammar.fromText(request.grammar);
+          // Words whose tag the grammar never uses are kept, just never scanned
+          const lexicon = Lexicon.fromJSON(request.lexicon, [...PARTS_OF_SPEECH, ...grammar.getTerminals()]);
+          session = new EarleyParser(grammar, lexicon).begin();
+        } catch (error) {
+          session = null;
+          post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+        }
+        break;
+      }
+
+      case 'parse': {
+        const { id, input, constraints } = request;
+        if (!session) {
+          post({ type: 'error', id, message: 'No grammar loaded' });
+          break;
+        }
+
+        // One column at a time, so the page can show how far the chart has got
+        for (let column = 1; column <= input.length; column++) {
+          session.update(input.slice(0, column), constraints?.slice(0, column));
+          post({ type: 'progress', id, progress: { phase: 'chart', column, columns: input.length } });
+        }
+        session.update(input, constraints);
+
+        // The first tree, then at most one message per interval while the rest are found
+        let lastPosted = -Infinity;
+        const result = session.results({
+          onTree: (found, totalCount) => {
+            if (Date.now() - lastPosted < TREES_PROGRESS_MS) return;
+            lastPosted = Date.now();
+            post({ type: 'progress', id, progress: { phase: 'trees', found, totalCount } });
+          },
+        });
+        post({ type: 'progress', id, progress: { phase: 'trees', found: result.trees.length, totalCount: result.totalCount } });
+        post({ type: 'result', id, result });
+        break;
+      }
+    }
+  };
+}
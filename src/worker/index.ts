@@ -0,0 +1,13 @@
+export { ParseWorkerClient, ParseCancelledError } from './client.js';
+export type { WorkerLike } from './client.js';
+export { createParseHandler } from './handler.js';
+export type {
+  InitRequest,
+  ParseRequest,
+  WorkerRequest,
+  ParseProgress,
+  ProgressResponse,
+  ResultResponse,
+  ErrorResponse,
+  WorkerResponse,
+} from './protocol.js';
@@ -0,0 +1,16 @@
+/**
+ * Worker entry point: parses off the main thread so the page stays
+ * responsive. Start it with
+ * `new Worker(new URL('./parse-worker.ts', import.meta.url), { type: 'module' })`.
+ */
+import { createParseHandler } from './handler.js';
+import type { WorkerRequest, WorkerResponse } from './protocol.js';
+
+interface WorkerScope {
+  postMessage(message: WorkerResponse): void;
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+const handle = createParseHandler(response => scope.postMessage(response));
+scope.onmessage = event => handle(event.data);
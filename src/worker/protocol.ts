@@ -0,0 +1,50 @@
+import type { ParseResult, PositionConstraint } from '../types.js';
+
+/**
+ * Messages between the page and the parse worker. Every parse carries an
+ * id, and each reply echoes it, so replies to a superseded parse can be
+ * told apart from the current one.
+ */
+
+/** Load a grammar (text format) and lexicon (JSON format) into the worker */
+export interface InitRequest {
+  type: 'init';
+  grammar: string;
+  lexicon: string;
+}
+
+/** Parse a sentence with the loaded grammar and lexicon */
+export interface ParseRequest {
+  type: 'parse';
+  id: number;
+  input: string[];
+  constraints?: PositionConstraint[];
+}
+
+export type WorkerRequest = InitRequest | ParseRequest;
+
+/** How far a parse has got */
+export type ParseProgress =
+  | { phase: 'chart'; column: number; columns: number }
+  | { phase: 'trees'; found: number; totalCount: bigint };
+
+export interface ProgressResponse {
+  type: 'progress';
+  id: number;
+  progress: ParseProgress;
+}
+
+export interface ResultResponse {
+  type: 'result';
+  id: number;
+  result: ParseResult;
+}
+
+/** Something went wrong; id is absent when loading the grammar or lexicon failed */
+export interface ErrorResponse {
+  type: 'error';
+  id?: number;
+  message: string;
+}
+
+export type WorkerResponse = ProgressResponse | ResultResponse | ErrorResponse;
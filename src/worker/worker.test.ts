@@ -0,0 +1,167 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createParseHandler } from './handler.js';
+import { ParseCancelledError, ParseWorkerClient } from './client.js';
+import type { WorkerLike } from './client.js';
+import type { WorkerRequest, WorkerResponse } from './protocol.js';
+import type { PositionConstraint } from '../types.js';
+import { EarleyParser, Grammar, Lexicon, createEnglishGrammar, createBuffaloLexicon, createTestLexicon } from '../parser/index.js';
+
+const grammar = createEnglishGrammar();
+const lexicon = createBuffaloLexicon();
+const init: WorkerRequest = { type: 'init', grammar: grammar.toText(), lexicon: JSON.stringify(lexicon) };
+
+/** Runs the real handler, but only when told to, like a busy worker */
+class FakeWorker implements WorkerLike {
+  onmessage: ((event: MessageEvent<WorkerResponse>) => void) | null = null;
+  terminated = false;
+  private queue: WorkerRequest[] = [];
+  private handle = createParseHandler(response => this.onmessage?.({ data: response } as MessageEvent<WorkerResponse>));
+
+  postMessage(message: WorkerRequest): void {
+    this.queue.push(message);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  run(): void {
+    while (this.queue.length > 0 && !this.terminated) this.handle(this.queue.shift()!);
+  }
+}
+
+describe('createParseHandler', () => {
+  it('should report each chart column, then the trees, then the result', () => {
+    const responses: WorkerResponse[] = [];
+    const handle = createParseHandler(response => responses.push(response));
+
+    handle(init);
+    handle({ type: 'parse', id: 7, input: ['buffalo', 'buffalo', 'buffalo'] });
+
+    const phases = responses.map(r => (r.type === 'progress' ? r.progress.phase : r.type));
+    expect(phases.slice(0, 4)).toEqual(['chart', 'chart', 'chart', 'trees']);
+    expect(phases.slice(3, -1).every(phase => phase === 'trees')).toBe(true);
+    expect(responses[2]).toEqual({ type: 'progress', id: 7, progress: { phase: 'chart', column: 3, columns: 3 } });
+
+    const last = responses.at(-1)!;
+    expect(last.type === 'result' && last.result.totalCount).toBe(19n);
+    expect(responses.at(-2)).toEqual({ type: 'progress', id: 7, progress: { phase: 'trees', found: 19, totalCount: 19n } });
+  });
+
+  it('should report trees while they are being found', () => {
+    let now = 0;
+    const clock = vi.spyOn(Date, 'now').mockImplementation(() => (now += 100));
+    const found: number[] = [];
+    const handle = createParseHandler(response => {
+      if (response.type === 'progress' && response.progress.phase === 'trees') found.push(response.progress.found);
+    });
+
+    handle(init);
+    handle({ type: 'parse', id: 1, input: ['buffalo', 'buffalo', 'buffalo'] });
+    clock.mockRestore();
+
+    expect(found.slice(0, 19)).toEqual(Array.from({ length: 19 }, (_, i) => i + 1));
+  });
+
+  it('should match a direct parse with constraints', () => {
+    const responses: WorkerResponse[] = [];
+    const handle = createParseHandler(response => responses.push(response));
+    const input = ['Buffalo', 'buffalo', 'buffalo', 'buffalo'];
+    const constraints: PositionConstraint[] = [['PN'], ['N'], 'any', 'any'];
+
+    handle(init);
+    handle({ type: 'parse', id: 1, input, constraints });
+
+    const result = responses.find(r => r.type === 'result');
+    expect(result?.type === 'result' && result.result.totalCount)
+      .toBe(new EarleyParser(grammar, lexicon).countParses(input, constraints));
+  });
+
+  it('should accept lexicon words whose part of speech the grammar does not use', () => {
+    const responses: WorkerResponse[] = [];
+    const handle = createParseHandler(response => responses.push(response));
+    const withAux = createTestLexicon().addWord('can', 'AUX');
+
+    handle({ type: 'init', grammar: grammar.toText(), lexicon: JSON.stringify(withAux) });
+    handle({ type: 'parse', id: 1, input: ['the', 'dog', 'ran'] });
+
+    expect(responses.filter(r => r.type === 'error')).toEqual([]);
+    const result = responses.find(r => r.type === 'result');
+    expect(result?.type === 'result' && result.result.totalCount).toBeGreaterThan(0n);
+  });
+
+  it('should report a parse before init and a bad grammar as errors', () => {
+    const responses: WorkerResponse[] = [];
+    const handle = createParseHandler(response => responses.push(response));
+
+    handle({ type: 'parse', id: 1, input: ['buffalo'] });
+    handle({ type: 'init', grammar: 'S -> ', lexicon: '[]' });
+
+    expect(responses[0]).toEqual({ type: 'error', id: 1, message: 'No grammar loaded' });
+    expect(responses[1]).toMatchObject({ type: 'error', message: expect.stringMatching(/Invalid grammar/) });
+    expect(responses[1]).not.toHaveProperty('id');
+  });
+});
+
+describe('ParseWorkerClient', () => {
+  it('should resolve with the result and pass on progress', async () => {
+    const workers: FakeWorker[] = [];
+    const client = new ParseWorkerClient(() => workers[workers.push(new FakeWorker()) - 1]!, grammar, lexicon);
+    const columns: number[] = [];
+
+    const promise = client.parse(['buffalo', 'buffalo'], undefined, p => {
+      if (p.phase === 'chart') columns.push(p.column);
+    });
+    expect(client.busy).toBe(true);
+    workers[0]!.run();
+
+    const result = await promise;
+    expect(result.trees.length).toBeGreaterThan(0);
+    expect(columns).toEqual([1, 2]);
+    expect(client.busy).toBe(false);
+  });
+
+  it('should cancel a parse in flight when a new one starts', async () => {
+    const workers: FakeWorker[] = [];
+    const client = new ParseWorkerClient(() => workers[workers.push(new FakeWorker()) - 1]!, grammar, lexicon);
+
+    const first = client.parse(['buffalo', 'buffalo', 'buffalo']);
+    const second = client.parse(['buffalo']);
+
+    await expect(first).rejects.toBeInstanceOf(ParseCancelledError);
+    expect(workers[0]!.terminated).toBe(true);
+    expect(workers).toHaveLength(2);
+
+    workers[1]!.run();
+    expect((await second).input).toEqual(['buffalo']);
+  });
+
+  it('should reuse the worker between finished parses', async () => {
+    const workers: FakeWorker[] = [];
+    const client = new ParseWorkerClient(() => workers[workers.push(new FakeWorker()) - 1]!, grammar, lexicon);
+
+    const first = client.parse(['buffalo']);
+    workers[0]!.run();
+    await first;
+    const second = client.parse(['buffalo', 'buffalo']);
+    workers[0]!.run();
+
+    expect((await second).totalCount).toBeGreaterThan(0n);
+    expect(workers).toHaveLength(1);
+  });
+
+  it('should parse with a grammar with custom terminals', async () => {
+    const custom = new Grammar({ terminals: ['NUM'] });
+    custom.addRule('S', ['NP', 'VP']);
+    custom.addRule('NP', ['NUM', 'N']);
+    custom.addRule('VP', ['V']);
+    const words = new Lexicon().addWord('two', 'NUM').addWord('dogs', 'N').addWord('bark', 'V');
+    const workers: FakeWorker[] = [];
+    const client = new ParseWorkerClient(() => workers[workers.push(new FakeWorker()) - 1]!, custom, words);
+
+    const promise = client.parse(['two', 'dogs', 'bark']);
+    workers[0]!.run();
+
+    expect((await promise).totalCount).toBe(1n);
+  });
+});